@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { apiQuery } from "./fetcher";
+import type { Errors } from "./example/+server";
+
+function respond(status: number, body: unknown, headers?: HeadersInit) {
+	return () =>
+		Promise.resolve(new Response(JSON.stringify(body), { status, headers }));
+}
+
+describe("apiQuery", () => {
+	const signal = new AbortController().signal;
+
+	it("maps data to `ok`", async () => {
+		const fetch = apiQuery<string, Errors>(
+			"leet",
+			respond(200, { error: false, data: "l337" })
+		);
+		expect(await fetch(signal, [])).toEqual(["ok", "l337"]);
+	});
+
+	it("maps endpoint error codes to `err`", async () => {
+		const fetch = apiQuery<string, Errors>(
+			"leet",
+			respond(400, { error: true, code: "JSON:ParseError" })
+		);
+		expect(await fetch(signal, [])).toEqual(["err", ["JSON:ParseError"]]);
+	});
+
+	it("retries network errors and 5xx responses", async () => {
+		const offline = apiQuery<string, Errors>("leet", () =>
+			Promise.reject(new TypeError("Failed to fetch"))
+		);
+		expect(await offline(signal, [])).toEqual([
+			"retry",
+			{ err: ["FETCH:NetworkError"], returnError: true }
+		]);
+
+		const down = apiQuery<string, Errors>(
+			"leet",
+			respond(503, { error: true, code: "Maintenance" })
+		);
+		expect(await down(signal, [])).toEqual([
+			"retry",
+			{ err: ["Maintenance"], returnError: true }
+		]);
+	});
+
+	it("retries rate limiting after `Retry-After`", async () => {
+		const fetch = apiQuery<string, Errors>(
+			"leet",
+			respond(429, {}, { "Retry-After": "2" })
+		);
+		expect(await fetch(signal, [])).toEqual([
+			"retry",
+			{
+				err: ["FETCH:TooManyRequests", { retryAfter: 2000 }],
+				returnError: true
+			}
+		]);
+	});
+});
@@ -1,3 +1,9 @@
+import type {
+	FetchResultErr,
+	FetchResultOk,
+	FetchResultRetry
+} from "$/state/query/lib";
+
 export type IntoErrEnum<T extends Record<string, unknown>> = {
 	[C in keyof T]: T[C] extends never ? ["err", C] : ["err", C, T[C]];
 }[keyof T];
@@ -18,8 +24,131 @@ export type FetcherResponse<Ok, Err extends Record<string, unknown>> =
 				| "FETCH:NoErrorCode"
 			)
 	  ]
+	| [
+			"err",
+			"FETCH:TooManyRequests",
+			/** How many milliseconds the server asked to wait before retrying,
+			 *  from its `Retry-After` header. Retry policies wait for it.
+			 */
+			{ retryAfter: number | undefined }
+	  ]
 	| IntoErrEnum<Err>;
 
+/** The error of a query made with `[apiQuery]`. Either one of the endpoint's
+ *  `Errors`, or an error from `fetcher` itself.
+ */
+export type ApiQueryError<Err extends Record<string, unknown>> =
+	FetcherResponse<never, Err> extends infer Response
+		? Response extends ["err", ...infer E]
+			? E
+			: never
+		: never;
+
+/** The `ok` and `err` types of a query made with `[apiQuery]`, for the
+ *  query map's `Queries` type.
+ *
+ *  # Example
+ *  ```ts
+ *  import type { Errors } from './api/example/+server';
+ *
+ *  type Queries = {
+ *      leet: ApiQuery<string, Errors> & { subkeys: [string] };
+ *  };
+ *  ```
+ */
+export type ApiQuery<Ok, Err extends Record<string, unknown>> = {
+	ok: Ok;
+	err: ApiQueryError<Err>;
+};
+
+/** Wraps a `fetcher` call as a `useQuery` fetch.
+ *
+ *  Network errors, rate limiting and 5xx responses are retried, showing the
+ *  error while they are (see `FetchResultRetry.returnError`). The endpoint's
+ *  own error codes are returned as the query's `err`.
+ *
+ *  # Example
+ *  ```ts
+ *  useQuery(
+ *      ['leet', text],
+ *      apiQuery<string, Errors>('leet', (signal) =>
+ *          fetch('/api/example', { method: 'POST', body: JSON.stringify({ text }), signal })
+ *      )
+ *  );
+ *  ```
+ */
+export function apiQuery<
+	Ok,
+	Err extends Record<string, unknown>,
+	Deps extends readonly unknown[] = unknown[]
+>(
+	name: string,
+	fetch: (signal: AbortSignal, dependencies: Deps) => Promise<Response>
+): (
+	signal: AbortSignal,
+	dependencies: Deps
+) => Promise<
+	| FetchResultOk<Ok>
+	| FetchResultErr<ApiQueryError<Err>>
+	| FetchResultRetry<ApiQueryError<Err>>
+> {
+	return async (signal, dependencies) => {
+		let status: number | undefined;
+		const response = await fetcher<Ok, Err>(name, async () => {
+			const response = await fetch(signal, dependencies);
+			status = response.status;
+			return response;
+		});
+		return toFetchResult(response, status);
+	};
+}
+
+/** Wraps a `fetcher` call as a mutation's `mutate`, mapping its response like
+ *  `[apiQuery]`. Network errors return `retry`, so mutations made through a
+ *  mutation queue are queued until the network is back.
+ */
+export function apiMutation<Vars, Ok, Err extends Record<string, unknown>>(
+	name: string,
+	fetch: (vars: Vars) => Promise<Response>
+): (
+	vars: Vars
+) => Promise<
+	| FetchResultOk<Ok>
+	| FetchResultErr<ApiQueryError<Err>>
+	| FetchResultRetry<ApiQueryError<Err>>
+> {
+	return async (vars) => {
+		let status: number | undefined;
+		const response = await fetcher<Ok, Err>(name, async () => {
+			const response = await fetch(vars);
+			status = response.status;
+			return response;
+		});
+		return toFetchResult(response, status);
+	};
+}
+
+/** Maps a `fetcher` response to a `FetchResult`. Network errors, rate limiting
+ *  and 5xx responses are transient, so they're retried.
+ */
+function toFetchResult<Ok, Err extends Record<string, unknown>>(
+	response: FetcherResponse<Ok, Err>,
+	status: number | undefined
+):
+	| FetchResultOk<Ok>
+	| FetchResultErr<ApiQueryError<Err>>
+	| FetchResultRetry<ApiQueryError<Err>> {
+	if (response[0] === "ok") return ["ok", response[1] as Ok];
+
+	const err = response.slice(1) as ApiQueryError<Err>;
+	const isTransient =
+		err[0] === "FETCH:NetworkError" ||
+		err[0] === "FETCH:TooManyRequests" ||
+		(status !== undefined && status >= 500);
+	if (isTransient) return ["retry", { err, returnError: true }];
+	return ["err", err];
+}
+
 export async function fetcher<Ok, Err extends Record<string, unknown>>(
 	name: string,
 	fetch: () => Promise<Response>
@@ -32,6 +161,14 @@ export async function fetcher<Ok, Err extends Record<string, unknown>>(
 		return ["err", "FETCH:NetworkError"];
 	}
 
+	if (response.status === 429) {
+		return [
+			"err",
+			"FETCH:TooManyRequests",
+			{ retryAfter: parseRetryAfter(response.headers.get("Retry-After")) }
+		];
+	}
+
 	const text = await response.text();
 	let json: unknown;
 	try {
@@ -68,3 +205,18 @@ export async function fetcher<Ok, Err extends Record<string, unknown>>(
 		return ["ok"] as FetcherResponse<Ok, Err>;
 	}
 }
+
+/** Parses a `Retry-After` header, either a number of seconds or a date, into
+ *  milliseconds from now.
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+	if (header === null) return undefined;
+
+	const seconds = Number(header);
+	if (header.trim() !== "" && !Number.isNaN(seconds)) {
+		return Math.max(seconds * 1000, 0);
+	}
+	const date = Date.parse(header);
+	if (Number.isNaN(date)) return undefined;
+	return Math.max(date - Date.now(), 0);
+}
@@ -178,3 +178,84 @@ export function ok(
 		}
 	);
 }
+
+export type SseStream<T, E extends Record<string, unknown>> = {
+	/** Sends an event, in the same `{ error, data }` envelope as `ok`. */
+	send(data: T): void;
+	/** Sends an error event, in the same envelope as `err`, and closes the
+	 *  stream.
+	 */
+	error<C extends keyof E & string>(
+		code: C,
+		...data: [E[C]] extends [never] ? [] : [E[C]]
+	): void;
+	close(): void;
+	/** Aborted once the stream has closed, including when the client
+	 *  disconnects.
+	 */
+	signal: AbortSignal;
+};
+
+/** Returns a stream of Server-Sent Events from an endpoint. `start` is called
+ *  with the stream and may return a function that's called when it closes.
+ *
+ *  The client can read it with `sseSource` from `$/state/query/live`.
+ *
+ *  # Example
+ *  ```ts
+ *  export const GET = (() =>
+ *      sse<Message, ErrorMap<{ Kicked: never }>>((stream) => {
+ *          const unsubscribe = channel.subscribe((message) => stream.send(message));
+ *          return unsubscribe;
+ *      })) satisfies RequestHandler;
+ *  ```
+ */
+export function sse<
+	T,
+	E extends Record<string, unknown> = Record<never, never>
+>(start: (stream: SseStream<T, E>) => void | (() => void)): Response {
+	const controller = new AbortController();
+	const encoder = new TextEncoder();
+	let cleanup: (() => void) | void;
+	const stop = () => {
+		if (controller.signal.aborted) return false;
+		controller.abort();
+		cleanup?.();
+		return true;
+	};
+
+	const body = new ReadableStream<Uint8Array>({
+		start(stream) {
+			const write = (envelope: unknown) => {
+				if (controller.signal.aborted) return;
+				stream.enqueue(encoder.encode(`data: ${JSON.stringify(envelope)}\n\n`));
+			};
+			const close = () => {
+				if (stop()) stream.close();
+			};
+
+			cleanup = start({
+				send: (data) => write({ error: false, data }),
+				error(code, ...data) {
+					write({ error: true, code, data: data[0] });
+					close();
+				},
+				close,
+				signal: controller.signal
+			});
+			// Closed before `start` returned, so `stop` couldn't clean up.
+			if (controller.signal.aborted) cleanup?.();
+		},
+		cancel() {
+			stop();
+		}
+	});
+
+	return new Response(body, {
+		headers: {
+			"Content-Type": "text/event-stream",
+			"Cache-Control": "no-cache",
+			Connection: "keep-alive"
+		}
+	});
+}
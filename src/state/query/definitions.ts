@@ -0,0 +1,77 @@
+import type {
+	QueriesType,
+	QueryDependency,
+	QueryFetch,
+	QueryKeys,
+	QuerySubkeys,
+	UseQueryOptionsArg,
+	WQueryMap
+} from "./lib";
+
+/** How to fetch every query with a name, e.g., `['user', id]` for `user`. */
+export type QueryDefinition<Q extends QueriesType, Key extends keyof Q> = {
+	/** Creates the fetch for the query with these subkeys. */
+	fetch: (...subkeys: QuerySubkeys<Q>[Key]) => QueryFetch<Q, Key>;
+	/** The query's options, or a function of its subkeys returning them, e.g.,
+	 *  to depend on a query with the same subkeys.
+	 */
+	options?:
+		| UseQueryOptionsArg<Q, Key, QueryDependency<Q>[]>
+		| ((
+				...subkeys: QuerySubkeys<Q>[Key]
+		  ) => UseQueryOptionsArg<Q, Key, QueryDependency<Q>[]>);
+};
+
+/** The definitions of the queries in a query map, by name. See
+ *  `QueryMapOptions.queries`.
+ */
+export type QueryDefinitions<Q extends QueriesType> = {
+	[Key in keyof Q]?: QueryDefinition<Q, Key>;
+};
+
+/** Returns the fetch and options for `key` from its definition, or
+ *  `undefined` if the query has no definition.
+ */
+export function resolveDefinition<Q extends QueriesType, Key extends keyof Q>(
+	queryMap: WQueryMap<Q>,
+	key: QueryKeys<Q>[Key]
+):
+	| {
+			fetch: QueryFetch<Q, Key>;
+			options: UseQueryOptionsArg<Q, Key, QueryDependency<Q>[]>;
+	  }
+	| undefined {
+	const definition = queryMap.options.queries?.[key[0]];
+	if (definition === undefined) return undefined;
+
+	const subkeys = key.slice(1) as QuerySubkeys<Q>[Key];
+	return {
+		fetch: definition.fetch(...subkeys),
+		options:
+			typeof definition.options === "function"
+				? definition.options(...subkeys)
+				: definition.options ?? {}
+	};
+}
+
+/** Warns if a query with a definition is also passed a `fetch` or options.
+ *  They're ignored, so the definition alone decides how the query fetches,
+ *  rather than whichever component happens to create it first.
+ */
+export function warnIfOverridden<Q extends QueriesType>(
+	queryMap: WQueryMap<Q>,
+	key: QueryKeys<Q>[keyof Q],
+	fetch: unknown,
+	options: object | undefined
+) {
+	if (queryMap.options.queries?.[key[0]] === undefined) return;
+	const hasOptions = Object.values(options ?? {}).some(
+		(value) => value !== undefined
+	);
+	if (fetch === undefined && !hasOptions) return;
+
+	const name = String(key[0]);
+	console.warn(
+		`\`${name}\` query is defined in \`queries\`, ignoring the \`fetch\` and \`options\` passed for it`
+	);
+}
@@ -0,0 +1,95 @@
+import type {
+	FetchResult,
+	QueriesType,
+	QueryKeyArr,
+	UseQueryOptions
+} from "./lib";
+
+/** The payload of each event the queries in a query map emit. */
+export type QueryEventPayloads<Q extends QueriesType> = {
+	/** The query was created and added to the query map. */
+	created: { options: UseQueryOptions<Q, keyof Q> };
+	/** A fetch started. `restarted` is `true` if it replaced a fetch that was
+	 *  still in flight.
+	 */
+	fetchStart: { restarted: boolean };
+	/** A fetch returned. Results of superseded fetches are never emitted. */
+	fetchResult: { result: FetchResult<Q, keyof Q> };
+	/** A fetch asked to be retried. `waitDuration` is `false` if `onRetry`
+	 *  gave up and the error is being returned instead.
+	 */
+	retry: {
+		count: number;
+		err: Q[keyof Q]["err"];
+		returnError: boolean;
+		waitDuration: number | false;
+	};
+	/** The query was marked stale. */
+	staleMarked: { forceRefetch: boolean; willRefetch: boolean };
+	/** The query's cache was cleared. */
+	cacheCleared: { markStale: boolean; forceRefetch: boolean };
+	/** The query's cache was cleared to stay within
+	 *  `QueryMapOptions.cacheLimits`.
+	 */
+	evicted: Record<string, never>;
+	/** A dependency changed and its `onChange` was called. `dependency` is its
+	 *  index in `options.dependencies`.
+	 */
+	dependencyChanged: {
+		dependency: number;
+		result: "nothing" | "refetch" | "clearCacheAndRefetch" | "stop";
+	};
+	/** A fetch was stopped by dependencies. `by` are their indexes in
+	 *  `options.dependencies`.
+	 */
+	stopped: { by: number[] };
+	/** The query was created with `QDepQuery` dependencies leading back to
+	 *  itself. `cycle` starts and ends with the query's key.
+	 */
+	dependencyCycle: { cycle: (string | number)[][] };
+	/** A `QDepQuery` dependency still didn't exist after
+	 *  `QueryMapOptions.unresolvedDependencyTimeout`.
+	 */
+	dependencyUnresolved: { dependency: number; key: (string | number)[] };
+	/** The query was destroyed and removed from the query map. */
+	destroyed: Record<string, never>;
+};
+export type QueryEventType = keyof QueryEventPayloads<QueriesType>;
+
+export type QueryEvent<Q extends QueriesType> = {
+	[T in QueryEventType]: {
+		type: T;
+		/** The key of the query that emitted the event. */
+		key: QueryKeyArr<Q>;
+		/** When the event was emitted, in milliseconds since the epoch. */
+		timestamp: number;
+		payload: QueryEventPayloads<Q>[T];
+	};
+}[QueryEventType];
+
+export type QueryEventListener<Q extends QueriesType> = (
+	event: QueryEvent<Q>
+) => void;
+
+/** Logs every event to the console. Pass `types` to only log some of them.
+ *
+ *  # Example
+ *  ```ts
+ *  createQueryMap<Queries>({
+ *      onEvent: dev ? consoleLogger() : undefined
+ *  });
+ *  ```
+ */
+export function consoleLogger<Q extends QueriesType>(
+	types?: QueryEventType[]
+): QueryEventListener<Q> {
+	return (event) => {
+		if (types !== undefined && !types.includes(event.type)) return;
+		console.log(
+			`%c${event.key.join("::")}%c ${event.type}`,
+			"color: #596064",
+			"color: inherit",
+			event.payload
+		);
+	};
+}
@@ -0,0 +1,166 @@
+import { describe, it, expect } from "vitest";
+import { get } from "svelte/store";
+import { estimateSize } from "./eviction";
+import { keepPreviousData } from "./lib";
+import {
+	createFakeFetch,
+	createTestQueryMap,
+	recordResults,
+	type TestQueryMap
+} from "./testing";
+
+type Queries = {
+	post: { subkeys: [number]; ok: string; err: ["Network"] };
+	tag: { ok: string; err: ["Network"] };
+};
+
+function isCached(queries: TestQueryMap<Queries>, id: number) {
+	const query = queries.getQuery(["post", id]);
+	return query !== undefined && get(query).cache.hasCached;
+}
+
+describe("cacheLimits", () => {
+	it("evicts the least recently used unsubscribed query", async () => {
+		const queries = createTestQueryMap<Queries>({
+			cacheLimits: { maxEntries: 2 }
+		});
+		const fetch = createFakeFetch<Queries, "post">();
+		const first = recordResults(queries.useQuery(["post", 1], fetch.fetch));
+		await fetch.ok("One");
+		const second = recordResults(queries.useQuery(["post", 2], fetch.fetch));
+		await fetch.ok("Two");
+		second.stop();
+		// Used more recently than the second.
+		first.stop();
+
+		recordResults(queries.useQuery(["post", 3], fetch.fetch));
+		await fetch.ok("Three");
+		expect(isCached(queries, 1)).toBe(true);
+		expect(isCached(queries, 2)).toBe(false);
+		expect(isCached(queries, 3)).toBe(true);
+		expect(queries.getCacheStats()).toMatchObject({
+			entries: 2,
+			evictions: 1
+		});
+	});
+
+	it("doesn't keep evicted data alive as placeholders", async () => {
+		const queries = createTestQueryMap<Queries>({
+			cacheLimits: { maxEntries: 1 }
+		});
+		const fetch = createFakeFetch<Queries, "post">();
+		const options = { placeholderData: keepPreviousData };
+		const first = recordResults(
+			queries.useQuery(["post", 1], fetch.fetch, options)
+		);
+		await fetch.ok("One");
+		first.stop();
+		const tagFetch = createFakeFetch<Queries, "tag">();
+		recordResults(queries.useQuery(["tag"], tagFetch.fetch));
+		await tagFetch.ok("Tag");
+		expect(isCached(queries, 1)).toBe(false);
+
+		const second = recordResults(
+			queries.useQuery(["post", 2], fetch.fetch, options)
+		);
+		expect(second.last()).toEqual({ status: "loading" });
+	});
+
+	it("never evicts queries with subscribers", async () => {
+		const queries = createTestQueryMap<Queries>({
+			cacheLimits: { maxEntries: 1 }
+		});
+		const fetch = createFakeFetch<Queries, "post">();
+		recordResults(queries.useQuery(["post", 1], fetch.fetch));
+		await fetch.ok("One");
+		recordResults(queries.useQuery(["post", 2], fetch.fetch));
+		await fetch.ok("Two");
+
+		expect(isCached(queries, 1)).toBe(true);
+		expect(isCached(queries, 2)).toBe(true);
+		expect(queries.getCacheStats()).toMatchObject({
+			entries: 2,
+			evictions: 0
+		});
+	});
+
+	it("never evicts queries that are fetching", async () => {
+		const queries = createTestQueryMap<Queries>({
+			cacheLimits: { maxEntries: 1 }
+		});
+		const firstFetch = createFakeFetch<Queries, "post">();
+		const secondFetch = createFakeFetch<Queries, "post">();
+		recordResults(queries.useQuery(["post", 1], firstFetch.fetch)).stop();
+		await firstFetch.ok("One");
+		queries.refetch(["post", 1]);
+
+		recordResults(queries.useQuery(["post", 2], secondFetch.fetch));
+		await secondFetch.ok("Two");
+		expect(isCached(queries, 1)).toBe(true);
+
+		await firstFetch.ok("One again");
+		const query = queries.getQuery(["post", 1]);
+		expect(query).toBeDefined();
+		if (query !== undefined) {
+			expect(get(query).cache.data).toEqual(["some", "One again"]);
+		}
+		expect(queries.getCacheStats()).toMatchObject({ evictions: 0 });
+	});
+
+	it("evicts to stay within `maxBytes`", async () => {
+		const queries = createTestQueryMap<Queries>({
+			cacheLimits: { maxBytes: 8, sizeOf: (data) => String(data).length }
+		});
+		const fetch = createFakeFetch<Queries, "post">();
+		recordResults(queries.useQuery(["post", 1], fetch.fetch)).stop();
+		await fetch.ok("Hello");
+		expect(queries.getCacheStats()).toMatchObject({ entries: 1, bytes: 5 });
+
+		recordResults(queries.useQuery(["post", 2], fetch.fetch));
+		await fetch.ok("World");
+		expect(isCached(queries, 1)).toBe(false);
+		expect(queries.getCacheStats()).toMatchObject({ entries: 1, bytes: 5 });
+	});
+
+	it("refetches an evicted query when it's next used", async () => {
+		const queries = createTestQueryMap<Queries>({
+			cacheLimits: { maxEntries: 1 }
+		});
+		const fetch = createFakeFetch<Queries, "post">();
+		recordResults(queries.useQuery(["post", 1], fetch.fetch)).stop();
+		await fetch.ok("One");
+		recordResults(queries.useQuery(["post", 2], fetch.fetch)).stop();
+		await fetch.ok("Two");
+		expect(isCached(queries, 1)).toBe(false);
+
+		const again = recordResults(queries.useQuery(["post", 1], fetch.fetch));
+		expect(again.last()).toEqual({ status: "loading" });
+		await fetch.ok("One");
+		expect(again.last()).toEqual({ status: "ok", data: "One" });
+
+		// Both queries were created empty, then the evicted one had nothing
+		// to show.
+		expect(queries.getCacheStats()).toMatchObject({ hits: 0, misses: 3 });
+	});
+
+	it("collects no stats without `cacheLimits`", async () => {
+		const queries = createTestQueryMap<Queries>();
+		const fetch = createFakeFetch<Queries, "post">();
+		recordResults(queries.useQuery(["post", 1], fetch.fetch));
+		await fetch.ok("One");
+		expect(queries.getCacheStats()).toEqual({
+			entries: 0,
+			bytes: 0,
+			hits: 0,
+			misses: 0,
+			evictions: 0
+		});
+	});
+});
+
+describe("estimateSize", () => {
+	it("counts two bytes per character of JSON", () => {
+		expect(estimateSize({ a: 1 })).toBe(14);
+		expect(estimateSize(undefined)).toBe(0);
+	});
+});
@@ -0,0 +1,161 @@
+import { get } from "svelte/store";
+import type { QueriesType, Query, WQueryMap } from "./lib";
+
+/** Bounds on the cached data kept by a query map, see
+ *  `QueryMapOptions.cacheLimits`.
+ */
+export type CacheLimits = {
+	/** The most queries with cached data to keep. */
+	maxEntries?: number;
+	/** Roughly how many bytes of cached data to keep, as measured by
+	 *  `sizeOf`.
+	 */
+	maxBytes?: number;
+	/** Returns roughly how many bytes `data` takes up in memory. Defaults to
+	 *  `[estimateSize]`.
+	 */
+	sizeOf?: (data: unknown) => number;
+};
+
+/** How the cache is being used, to tune `CacheLimits`. */
+export type CacheStats = {
+	/** The number of queries with cached data. */
+	entries: number;
+	/** The total size of the cached data, as measured by `sizeOf`. */
+	bytes: number;
+	/** The number of times a query got its first subscriber and had cached
+	 *  data to show.
+	 */
+	hits: number;
+	/** The number of times a query got its first subscriber with nothing
+	 *  cached, e.g., because its data was evicted.
+	 */
+	misses: number;
+	/** The number of cache entries evicted to stay within the limits. */
+	evictions: number;
+};
+
+/** The queries with cached data, least recently used first, and the usage
+ *  counts for `CacheStats`.
+ */
+export type CacheIndex = {
+	entries: Map<unknown, { data: unknown; size: number }>;
+	bytes: number;
+	hits: number;
+	misses: number;
+	evictions: number;
+	/** Evicting clears caches, which updates the index again. */
+	isEvicting: boolean;
+};
+
+export function createCacheIndex(): CacheIndex {
+	return {
+		entries: new Map(),
+		bytes: 0,
+		hits: 0,
+		misses: 0,
+		evictions: 0,
+		isEvicting: false
+	};
+}
+
+/** Updates a query's entry in the index after its cache was written, cleared
+ *  or used, making it the most recently used. Then evicts the least recently
+ *  used caches if the query map is over its limits.
+ *
+ *  Does nothing unless `QueryMapOptions.cacheLimits` is set.
+ */
+export function updateCacheEntry<Q extends QueriesType, Key extends keyof Q>(
+	queryMap: WQueryMap<Q>,
+	query: Query<Q, Key>
+) {
+	const limits = queryMap.options.cacheLimits;
+	if (limits === undefined) return;
+
+	const index = queryMap.cacheIndex;
+	const entry = index.entries.get(query);
+	if (entry !== undefined) {
+		index.entries.delete(query);
+		index.bytes -= entry.size;
+	}
+
+	const { cache } = get(query.query);
+	if (query.isDestroyed || !cache.hasCached || cache.data[0] === "none") {
+		return;
+	}
+	const data = cache.data[1];
+	// Measuring can be slow, so only when the data has changed.
+	const size =
+		entry?.data === data ? entry.size : (limits.sizeOf ?? estimateSize)(data);
+	index.entries.set(query, { data, size });
+	index.bytes += size;
+
+	evict(queryMap, limits);
+}
+
+/** Counts a query getting its first subscriber as a cache hit or miss, and
+ *  marks it as used.
+ */
+export function recordCacheUse<Q extends QueriesType, Key extends keyof Q>(
+	queryMap: WQueryMap<Q>,
+	query: Query<Q, Key>
+) {
+	if (queryMap.options.cacheLimits === undefined) return;
+
+	const index = queryMap.cacheIndex;
+	if (index.entries.has(query)) {
+		index.hits++;
+	} else {
+		index.misses++;
+	}
+	updateCacheEntry(queryMap, query);
+}
+
+/** Evicts the least recently used caches until the query map is within its
+ *  limits. Queries with subscribers or dependents are in use, and fetching
+ *  queries are about to write their cache, so they're never evicted, even if
+ *  that leaves the query map over its limits.
+ */
+function evict<Q extends QueriesType>(
+	queryMap: WQueryMap<Q>,
+	{ maxEntries = Infinity, maxBytes = Infinity }: CacheLimits
+) {
+	const index = queryMap.cacheIndex;
+	if (index.isEvicting) return;
+
+	index.isEvicting = true;
+	try {
+		for (const query of [...index.entries.keys()] as Query<Q, keyof Q>[]) {
+			if (index.entries.size <= maxEntries && index.bytes <= maxBytes) {
+				return;
+			}
+			if (query.subscribers > 0 || query.dependents.size > 0) continue;
+			if (query.isFetching) continue;
+
+			index.evictions++;
+			query.evict();
+		}
+	} finally {
+		index.isEvicting = false;
+	}
+}
+
+/** See `[CreateQueryMapResponse.getCacheStats]` for documentation. */
+export function getCacheStats<Q extends QueriesType>(
+	queryMap: WQueryMap<Q>
+): CacheStats {
+	const { entries, bytes, hits, misses, evictions } = queryMap.cacheIndex;
+	return { entries: entries.size, bytes, hits, misses, evictions };
+}
+
+/** Estimates the size of `data` in memory as the size of its JSON, at two
+ *  bytes a character. Data that can't be turned into JSON counts as 0.
+ */
+export function estimateSize(data: unknown): number {
+	try {
+		const json = JSON.stringify(data) as string | undefined;
+		return (json?.length ?? 0) * 2;
+	} catch {
+		return 0;
+	}
+}
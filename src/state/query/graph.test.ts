@@ -0,0 +1,106 @@
+import { describe, it, expect, vi } from "vitest";
+import { QDepQuery, type QueryMapOptions } from "./lib";
+import { createFakeFetch, createTestQueryMap, recordResults } from "./testing";
+
+type Queries = {
+	a: { ok: string; err: ["Network"] };
+	b: { ok: string; err: ["Network"] };
+};
+
+/** Creates `a` depending on `b`, then `b` depending on `a`. */
+function createCycle(options: QueryMapOptions<Queries> = {}) {
+	const queries = createTestQueryMap<Queries>(options);
+	const aFetch = createFakeFetch<Queries, "a">();
+	const bFetch = createFakeFetch<Queries, "b">();
+	const onChange = () => "refetch" as const;
+	recordResults(
+		queries.useQuery(["a"], aFetch.fetch, {
+			dependencies: [new QDepQuery<Queries, "b">(["b"], { onChange })]
+		})
+	);
+	const useB = () =>
+		queries.useQuery(["b"], bFetch.fetch, {
+			dependencies: [new QDepQuery<Queries, "a">(["a"], { onChange })]
+		});
+	return { queries, useB };
+}
+
+describe("dependency cycles", () => {
+	it("warns and emits `dependencyCycle` by default", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+		const { queries, useB } = createCycle();
+
+		recordResults(useB());
+		expect(warn).toHaveBeenCalledWith("Query dependency cycle: b -> a -> b");
+		expect(queries.events).toContainEqual(
+			expect.objectContaining({
+				type: "dependencyCycle",
+				payload: { cycle: [["b"], ["a"], ["b"]] }
+			})
+		);
+		expect(queries.getQuery(["b"])).toBeDefined();
+		warn.mockRestore();
+	});
+
+	it("throws without creating the query with `dependencyCycles: 'throw'`", () => {
+		const { queries, useB } = createCycle({ dependencyCycles: "throw" });
+
+		expect(useB).toThrow("Query dependency cycle: b -> a -> b");
+		expect(queries.getQuery(["b"])).toBeUndefined();
+	});
+});
+
+describe("getDependencyGraph", () => {
+	it("shows which dependencies are unresolved and stopping a query", () => {
+		const queries = createTestQueryMap<Queries>();
+		const fetch = createFakeFetch<Queries, "a">();
+		recordResults(
+			queries.useQuery(["a"], fetch.fetch, {
+				dependencies: [
+					new QDepQuery<Queries, "b">(["b"], { onChange: () => "refetch" })
+				]
+			})
+		);
+
+		expect(queries.getDependencyGraph()).toEqual([
+			{
+				key: ["a"],
+				isStopped: true,
+				dependencies: [
+					{
+						type: "query",
+						index: 0,
+						key: ["b"],
+						isResolved: false,
+						isStopping: true
+					}
+				]
+			}
+		]);
+	});
+
+	it("reports dependencies still unresolved after the timeout", async () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+		const queries = createTestQueryMap<Queries>({
+			unresolvedDependencyTimeout: 1000
+		});
+		const fetch = createFakeFetch<Queries, "a">();
+		recordResults(
+			queries.useQuery(["a"], fetch.fetch, {
+				dependencies: [
+					new QDepQuery<Queries, "b">(["b"], { onChange: () => "refetch" })
+				]
+			})
+		);
+
+		await queries.clock.advance(1000);
+		expect(queries.events).toContainEqual(
+			expect.objectContaining({
+				type: "dependencyUnresolved",
+				payload: { dependency: 0, key: ["b"] }
+			})
+		);
+		expect(warn).toHaveBeenCalledOnce();
+		warn.mockRestore();
+	});
+});
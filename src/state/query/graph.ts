@@ -0,0 +1,95 @@
+import { get } from "svelte/store";
+import {
+	QDepQuery,
+	getAllQueries,
+	getQuery,
+	serialiseKey,
+	type QueriesType,
+	type WQueryMap
+} from "./lib";
+
+/** A query in the dependency graph. */
+export type DependencyGraphNode = {
+	key: (string | number)[];
+	/** The query's dependencies, in the order of `options.dependencies`. */
+	dependencies: DependencyGraphEdge[];
+	/** Whether a dependency is stopping the query, i.e., it's `idle`. */
+	isStopped: boolean;
+};
+export type DependencyGraphEdge =
+	| {
+			type: "query";
+			/** The dependency's index in `options.dependencies`. */
+			index: number;
+			key: (string | number)[];
+			/** The dependency query exists. Until it does, it stops the query. */
+			isResolved: boolean;
+			isStopping: boolean;
+	  }
+	| {
+			type: "subscription";
+			/** The dependency's index in `options.dependencies`. */
+			index: number;
+			isStopping: boolean;
+	  };
+
+/** Returns the keys of the `QDepQuery` dependencies of `key` in the query
+ *  map's `dependencyGraph` that lead back to `key`, starting and ending with
+ *  `key`, or `undefined` if they don't.
+ */
+export function findDependencyCycle<Q extends QueriesType>(
+	queryMap: WQueryMap<Q>,
+	key: readonly unknown[],
+	dependencies: string[]
+): (string | number)[][] | undefined {
+	const start = serialiseKey(key);
+	const visited = new Set<string>();
+	const visit = (id: string, path: string[]): string[] | undefined => {
+		if (id === start) return path;
+		if (visited.has(id)) return undefined;
+		visited.add(id);
+		for (const next of queryMap.dependencyGraph.get(id) ?? []) {
+			const cycle = visit(next, [...path, next]);
+			if (cycle !== undefined) return cycle;
+		}
+		return undefined;
+	};
+
+	for (const dependency of dependencies) {
+		const cycle = visit(dependency, [start, dependency]);
+		if (cycle !== undefined) {
+			return cycle.map((id) => JSON.parse(id) as (string | number)[]);
+		}
+	}
+	return undefined;
+}
+
+/** See `[CreateQueryMapResponse.getDependencyGraph]` for documentation. */
+export function getDependencyGraph<Q extends QueriesType>(
+	queryMap: WQueryMap<Q>
+): DependencyGraphNode[] {
+	return getAllQueries(queryMap).map((query) => {
+		const queryClass = get(query).class;
+		return {
+			key: queryClass.key as (string | number)[],
+			isStopped: queryClass.stoppedBy.size > 0,
+			dependencies: queryClass.options.dependencies.map(
+				(dependency, index): DependencyGraphEdge => {
+					const isStopping = queryClass.stoppedBy.has(index);
+					if (!(dependency instanceof QDepQuery)) {
+						return { type: "subscription", index, isStopping };
+					}
+
+					const key = dependency.key;
+					return {
+						type: "query",
+						index,
+						key: key as (string | number)[],
+						isResolved: getQuery(queryMap, key) !== undefined,
+						isStopping
+					};
+				}
+			)
+		};
+	});
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import type { DehydratedQuery } from "./hydration";
+import { createFakeFetch, createTestQueryMap, recordResults } from "./testing";
+
+type Queries = {
+	user: { subkeys: [number]; ok: { name: string }; err: ["Network"] };
+};
+
+/** What a server query map sends for `['user', 1]`, fetched at `0`. */
+function dehydrated(data: { name: string }, updatedAt = 0): DehydratedQuery {
+	return {
+		key: ["user", 1],
+		data,
+		updatedAt,
+		turnsStaleAt: updatedAt + 1000,
+		expiresAt: updatedAt + 5000
+	};
+}
+
+describe("dehydrate", () => {
+	it("sends a server query map's cached data", async () => {
+		const server = createTestQueryMap<Queries>({
+			browser: false,
+			server: true
+		});
+		const fetch = createFakeFetch<Queries, "user">();
+		const prefetched = server.prefetchQuery(["user", 1], fetch.fetch, {
+			stale: { duration: () => 1000 }
+		});
+		await fetch.ok({ name: "Ada" });
+		expect(await prefetched).toEqual({ status: "ok", data: { name: "Ada" } });
+
+		expect(server.dehydrate()).toEqual([
+			{
+				key: ["user", 1],
+				data: { name: "Ada" },
+				updatedAt: 0,
+				turnsStaleAt: 1000,
+				expiresAt: false
+			}
+		]);
+	});
+});
+
+describe("hydrate", () => {
+	it("starts queries in `ok` until the server's stale time", async () => {
+		const queries = createTestQueryMap<Queries>({
+			hydrate: [dehydrated({ name: "Ada" })]
+		});
+		const fetch = createFakeFetch<Queries, "user">();
+		const results = recordResults(queries.useQuery(["user", 1], fetch.fetch));
+
+		expect(results.results).toEqual([{ status: "ok", data: { name: "Ada" } }]);
+		expect(fetch.calls.length).toBe(0);
+		await queries.clock.advance(1000);
+		expect(fetch.pending().length).toBe(1);
+	});
+
+	it("skips entries that have expired", async () => {
+		const queries = createTestQueryMap<Queries>();
+		await queries.clock.advance(5000);
+		queries.hydrate([dehydrated({ name: "Ada" })]);
+
+		const fetch = createFakeFetch<Queries, "user">();
+		const results = recordResults(queries.useQuery(["user", 1], fetch.fetch));
+		expect(results.last()).toEqual({ status: "loading" });
+	});
+
+	it("only replaces data older than the server's", async () => {
+		const queries = createTestQueryMap<Queries>();
+		await queries.clock.advance(100);
+		const fetch = createFakeFetch<Queries, "user">();
+		const results = recordResults(queries.useQuery(["user", 1], fetch.fetch));
+		await fetch.ok({ name: "Ada" });
+
+		queries.hydrate([dehydrated({ name: "Old" }, 50)]);
+		expect(results.last()).toEqual({ status: "ok", data: { name: "Ada" } });
+		queries.hydrate([dehydrated({ name: "Grace" }, 200)]);
+		await Promise.resolve();
+		expect(results.last()).toEqual({ status: "ok", data: { name: "Grace" } });
+	});
+
+	it("does nothing outside the browser unless it's a server query map", () => {
+		const queries = createTestQueryMap<Queries>({
+			browser: false,
+			hydrate: [dehydrated({ name: "Ada" })]
+		});
+		const fetch = createFakeFetch<Queries, "user">();
+		const results = recordResults(queries.useQuery(["user", 1], fetch.fetch));
+		expect(results.last()).toEqual({ status: "idle" });
+		expect(fetch.calls.length).toBe(0);
+	});
+});
@@ -0,0 +1,105 @@
+import { get } from "svelte/store";
+import {
+	getAllQueries,
+	getQuery,
+	inBrowser,
+	serialiseKey,
+	useQuery,
+	type QueriesType,
+	type DependencyValues,
+	type QueryDependency,
+	type QueryFetch,
+	type QueryKeys,
+	type QueryResult,
+	type UseQueryOptionsArg,
+	type WQueryMap
+} from "./lib";
+
+/** A query's cached data as it is sent from the server to the client. Times
+ *  are in milliseconds since the epoch so the client can work out how long
+ *  is left on them.
+ */
+export type DehydratedQuery = {
+	key: (string | number)[];
+	data: unknown;
+	/** When the data was fetched on the server. */
+	updatedAt: number;
+	/** When the query turns stale. `false` means it never does. */
+	turnsStaleAt: number | false;
+	/** When the cache expires. `false` means it never does. */
+	expiresAt: number | false;
+};
+export type DehydratedState = DehydratedQuery[];
+
+/** See `[CreateQueryMapResponse.prefetchQuery]` for documentation. */
+export function prefetchQuery<
+	Q extends QueriesType,
+	Key extends keyof Q,
+	Deps extends QueryDependency<Q>[] = []
+>(
+	queryMap: WQueryMap<Q>,
+	key: QueryKeys<Q>[Key],
+	fetch?: QueryFetch<Q, Key, DependencyValues<Deps>>,
+	options?: UseQueryOptionsArg<Q, Key, Deps>
+): Promise<QueryResult<Q, Key>> {
+	const current = useQuery(queryMap, key, fetch, options);
+
+	return new Promise((res) => {
+		const unsubscribe = current.subscribe((result) => {
+			if (
+				result.status === "loading" ||
+				(result.status === "err" && result.isRefetching) ||
+				(result.status === "ok" && result.isPlaceholder === true)
+			) {
+				return;
+			}
+
+			res(result);
+			// `unsubscribe` isn't assigned yet if this runs during `subscribe`.
+			void Promise.resolve().then(() => unsubscribe());
+		});
+	});
+}
+
+/** See `[CreateQueryMapResponse.dehydrate]` for documentation. */
+export function dehydrate<Q extends QueriesType>(
+	queryMap: WQueryMap<Q>
+): DehydratedState {
+	const state: DehydratedState = [];
+	for (const query of getAllQueries(queryMap)) {
+		const entry = get(query).class.dehydrate();
+		if (entry !== undefined) state.push(entry);
+	}
+	return state;
+}
+
+/** See `[CreateQueryMapResponse.hydrate]` for documentation. */
+export function hydrate<Q extends QueriesType>(
+	queryMap: WQueryMap<Q>,
+	state: DehydratedState
+) {
+	// A query map outside the browser is shared between every request, so
+	// hydrating it would leak this user's data to the next.
+	if (!inBrowser(queryMap) && queryMap.options.server !== true) return;
+
+	for (const entry of state) {
+		if (entry.expiresAt !== false && entry.expiresAt <= queryMap.clock.now())
+			continue;
+
+		const key = entry.key as QueryKeys<Q>[keyof Q];
+		const query = getQuery(queryMap, key);
+		if (query === undefined) {
+			queryMap.dehydrated.set(serialiseKey(key), entry);
+			continue;
+		}
+
+		const { cache, class: queryClass } = get(query);
+		if (queryClass.isFetching) continue;
+		if (
+			cache.updatedAt !== false &&
+			cache.updatedAt.getTime() >= entry.updatedAt
+		)
+			continue;
+		queryClass.hydrate(entry);
+	}
+}
@@ -0,0 +1,78 @@
+import { get } from "svelte/store";
+import {
+	getQuery,
+	useQuery,
+	type QueriesType,
+	type Query,
+	type DependencyValues,
+	type QueryDependency,
+	type QueryFetch,
+	type QueryKeys,
+	type UseQueryOptionsArg,
+	type WQueryMap
+} from "./lib";
+
+/** See `[CreateQueryMapResponse.fetchQuery]` for documentation. */
+export async function fetchQuery<
+	Q extends QueriesType,
+	Key extends keyof Q,
+	Deps extends QueryDependency<Q>[] = []
+>(
+	queryMap: WQueryMap<Q>,
+	key: QueryKeys<Q>[Key],
+	fetch?: QueryFetch<Q, Key, DependencyValues<Deps>>,
+	options?: UseQueryOptionsArg<Q, Key, Deps>
+): Promise<Q[Key]["ok"]> {
+	useQuery(queryMap, key, fetch, options);
+	const query = getQuery(queryMap, key);
+	if (query === undefined) {
+		throw new Error("`fetchQuery` query should exist after `useQuery`");
+	}
+
+	const { cache, stale, class: queryClass } = get(query);
+	if (!queryClass.isFetching) {
+		if (cache.data[0] === "some" && !stale.isStale) return cache.data[1];
+		queryClass.markStale(true);
+	}
+	return settledData(queryClass);
+}
+
+/** See `[CreateQueryMapResponse.ensureQueryData]` for documentation. */
+export async function ensureQueryData<
+	Q extends QueriesType,
+	Key extends keyof Q,
+	Deps extends QueryDependency<Q>[] = []
+>(
+	queryMap: WQueryMap<Q>,
+	key: QueryKeys<Q>[Key],
+	fetch?: QueryFetch<Q, Key, DependencyValues<Deps>>,
+	options?: UseQueryOptionsArg<Q, Key, Deps>
+): Promise<Q[Key]["ok"]> {
+	useQuery(queryMap, key, fetch, options);
+	const query = getQuery(queryMap, key);
+	if (query === undefined) {
+		throw new Error("`ensureQueryData` query should exist after `useQuery`");
+	}
+
+	const { cache, class: queryClass } = get(query);
+	if (!queryClass.isFetching) {
+		if (cache.data[0] === "some") return cache.data[1];
+		queryClass.markStale(true);
+	}
+	return settledData(queryClass);
+}
+
+/** Waits for the query's fetch to settle, then returns its data or throws
+ *  its `err`.
+ */
+async function settledData<Q extends QueriesType, Key extends keyof Q>(
+	queryClass: Query<Q, Key>
+): Promise<Q[Key]["ok"]> {
+	const result = await queryClass.whenSettled();
+	if (result.status === "ok") return result.data;
+	// Thrown as is so callers can narrow on it like `QueryResultErr.err`.
+	if (result.status === "err") throw result.err;
+	throw new Error(
+		"Query settled without data, it was cancelled, stopped by a dependency or can't fetch here"
+	);
+}
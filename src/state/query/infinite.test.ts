@@ -0,0 +1,182 @@
+import { describe, it, expect, vi } from "vitest";
+import { get } from "svelte/store";
+import type { FetchPage, InfiniteData } from "./infinite";
+import { createTestQueryMap, flush } from "./testing";
+
+type Page = { items: string[]; next: number | null; previous: number | null };
+type Queries = {
+	feed: { ok: InfiniteData<Page, number>; err: ["Network"] };
+};
+
+/** Pages of two items each, from page `-1` to page `2`. `fail` makes every
+ *  fetch of that page fail instead.
+ */
+function createFeed() {
+	const params: number[] = [];
+	let fail: number | undefined;
+	let version = "";
+	const fetchPage: FetchPage<Queries, "feed"> = (param) => {
+		params.push(param);
+		if (param === fail) return Promise.resolve(["err", ["Network"]]);
+		return Promise.resolve([
+			"ok",
+			{
+				items: [`${param}a${version}`, `${param}b${version}`],
+				next: param < 2 ? param + 1 : null,
+				previous: param > -1 ? param - 1 : null
+			}
+		]);
+	};
+	return {
+		fetchPage,
+		params,
+		failOn: (param: number | undefined) => (fail = param),
+		setVersion: (next: string) => (version = next)
+	};
+}
+
+function setup() {
+	const queries = createTestQueryMap<Queries>();
+	const feed = createFeed();
+	const query = queries.useInfiniteQuery(["feed"], feed.fetchPage, {
+		initialPageParam: 0,
+		getNextPageParam: (last) => last.next ?? undefined,
+		getPreviousPageParam: (first) => first.previous ?? undefined
+	});
+	// Keep the query in use, like a component would.
+	query.subscribe(() => undefined);
+	const items = () => {
+		const result = get(query);
+		if (result.status !== "ok") return undefined;
+		return result.data.pages.flatMap((page) => page.items);
+	};
+	return { queries, feed, query, items };
+}
+
+describe("useInfiniteQuery", () => {
+	it("fetches the first page, then appends and prepends pages", async () => {
+		const { feed, query, items } = setup();
+		await flush();
+		expect(items()).toEqual(["0a", "0b"]);
+		expect(get(query)).toMatchObject({
+			hasNextPage: true,
+			hasPreviousPage: true
+		});
+
+		await query.fetchNextPage();
+		await query.fetchPreviousPage();
+		expect(items()).toEqual(["-1a", "-1b", "0a", "0b", "1a", "1b"]);
+		expect(get(query).hasPreviousPage).toBe(false);
+		expect(feed.params).toEqual([0, 1, -1]);
+	});
+
+	it("stops at the last page", async () => {
+		const { feed, query } = setup();
+		await flush();
+		await query.fetchNextPage();
+		await query.fetchNextPage();
+		expect(get(query).hasNextPage).toBe(false);
+
+		expect(await query.fetchNextPage()).toBeUndefined();
+		expect(feed.params).toEqual([0, 1, 2]);
+	});
+
+	it("keeps the loaded pages when a page fails", async () => {
+		const { feed, query, items } = setup();
+		await flush();
+
+		feed.failOn(1);
+		expect(await query.fetchNextPage()).toEqual(["err", ["Network"]]);
+		expect(items()).toEqual(["0a", "0b"]);
+		expect(get(query).isFetchingNextPage).toBe(false);
+	});
+
+	it("refetches every loaded page in order", async () => {
+		const { queries, feed, query, items } = setup();
+		await flush();
+		await query.fetchNextPage();
+
+		feed.setVersion("'");
+		queries.refetch(["feed"]);
+		await flush();
+		expect(items()).toEqual(["0a'", "0b'", "1a'", "1b'"]);
+		expect(feed.params).toEqual([0, 1, 0, 1]);
+	});
+
+	it("refetches every hydrated page when invalidated", async () => {
+		const queries = createTestQueryMap<Queries>({
+			hydrate: [
+				{
+					key: ["feed"],
+					data: {
+						pages: [
+							{ items: ["0a", "0b"], next: 1, previous: -1 },
+							{ items: ["1a", "1b"], next: 2, previous: 0 }
+						],
+						pageParams: [0, 1]
+					},
+					updatedAt: 0,
+					turnsStaleAt: 1000,
+					expiresAt: false
+				}
+			]
+		});
+		const feed = createFeed();
+		const query = queries.useInfiniteQuery(["feed"], feed.fetchPage, {
+			initialPageParam: 0,
+			getNextPageParam: (last) => last.next ?? undefined
+		});
+		query.subscribe(() => undefined);
+
+		feed.setVersion("'");
+		queries.invalidate(["feed"]);
+		await flush();
+		expect(feed.params).toEqual([0, 1]);
+		expect(get(query)).toMatchObject({
+			status: "ok",
+			data: { pageParams: [0, 1] }
+		});
+	});
+
+	it("shares its pages between every use of the query", async () => {
+		const { queries, feed, query } = setup();
+		await flush();
+		await query.fetchNextPage();
+
+		const other = queries.useInfiniteQuery(["feed"], feed.fetchPage, {
+			initialPageParam: 0,
+			getNextPageParam: (last) => last.next ?? undefined
+		});
+		expect(get(other).status).toBe("ok");
+		await other.fetchNextPage();
+		expect(get(query)).toMatchObject({ hasNextPage: false });
+	});
+
+	it("fetches pages even if the query has a definition", async () => {
+		const queries = createTestQueryMap<Queries>({
+			queries: {
+				feed: {
+					fetch: () => () => Promise.resolve(["err", ["Network"]]),
+					options: { stale: { duration: () => 1000 } }
+				}
+			}
+		});
+		const feed = createFeed();
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+		const query = queries.useInfiniteQuery(["feed"], feed.fetchPage, {
+			initialPageParam: 0,
+			getNextPageParam: (last) => last.next ?? undefined
+		});
+		query.subscribe(() => undefined);
+		await flush();
+		await query.fetchNextPage();
+		expect(get(query)).toMatchObject({ status: "ok", hasNextPage: true });
+		expect(feed.params).toEqual([0, 1]);
+		expect(warn).not.toHaveBeenCalled();
+		warn.mockRestore();
+
+		// The definition's options are used.
+		await queries.clock.advance(1000);
+		expect(feed.params).toEqual([0, 1, 0, 1]);
+	});
+});
@@ -0,0 +1,325 @@
+import {
+	derived,
+	get,
+	writable,
+	type Readable,
+	type Writable
+} from "svelte/store";
+import {
+	getQuery,
+	useQueryWithOwnFetch,
+	type FetchResultErr,
+	type FetchResultOk,
+	type FetchResultRetry,
+	type QueriesType,
+	type QueryFetch,
+	type QueryKeys,
+	type QueryResult,
+	type RecursivePartial,
+	type UseQueryOptions,
+	type WQueryMap
+} from "./lib";
+
+/** The `ok` data of an infinite query. Declare infinite queries in your
+ *  `Queries` type with this as their `ok` type.
+ *
+ *  # Example
+ *  ```ts
+ *  type Queries = {
+ *      posts: {
+ *          subkeys: [string];
+ *          ok: InfiniteData<Post[], string | null>;
+ *          err: ['Network'];
+ *      };
+ *  };
+ *  ```
+ */
+export type InfiniteData<Page, Param> = {
+	/** The loaded pages, in order. */
+	pages: Page[];
+	/** The param each page in `pages` was fetched with. */
+	pageParams: Param[];
+};
+
+/** The query keys whose `ok` type is `InfiniteData`. */
+export type InfiniteQueryKeys<Q extends QueriesType> = {
+	[K in keyof Q]: Q[K]["ok"] extends InfiniteData<unknown, unknown> ? K : never;
+}[keyof Q];
+export type PageOf<
+	Q extends QueriesType,
+	Key extends keyof Q
+> = Q[Key]["ok"] extends InfiniteData<infer Page, unknown> ? Page : never;
+export type PageParamOf<
+	Q extends QueriesType,
+	Key extends keyof Q
+> = Q[Key]["ok"] extends InfiniteData<unknown, infer Param> ? Param : never;
+
+export type FetchPageResult<Q extends QueriesType, Key extends keyof Q> =
+	| FetchResultRetry<Q[Key]["err"]>
+	| FetchResultErr<Q[Key]["err"]>
+	| FetchResultOk<PageOf<Q, Key>>;
+
+/** A request to fetch a single page of an infinite query. */
+export type FetchPage<Q extends QueriesType, Key extends keyof Q> = (
+	param: PageParamOf<Q, Key>,
+	signal: AbortSignal
+) => Promise<FetchPageResult<Q, Key>>;
+
+export type UseInfiniteQueryOptions<
+	Q extends QueriesType,
+	Key extends keyof Q
+> = RecursivePartial<UseQueryOptions<Q, Key>> & {
+	/** The param to fetch the first page with. */
+	initialPageParam: PageParamOf<Q, Key>;
+	/** Returns the param to fetch the page after `lastPage` with, or
+	 *  `undefined` if there are no more pages.
+	 */
+	getNextPageParam: (
+		lastPage: PageOf<Q, Key>,
+		pages: PageOf<Q, Key>[]
+	) => PageParamOf<Q, Key> | undefined;
+	/** Returns the param to fetch the page before `firstPage` with, or
+	 *  `undefined` if there are no more pages. If this isn't given, pages can
+	 *  only be fetched forwards.
+	 */
+	getPreviousPageParam?: (
+		firstPage: PageOf<Q, Key>,
+		pages: PageOf<Q, Key>[]
+	) => PageParamOf<Q, Key> | undefined;
+};
+
+export type InfiniteQueryResult<
+	Q extends QueriesType,
+	Key extends keyof Q
+> = QueryResult<Q, Key> & {
+	/** There's data and `getNextPageParam` returned a param. */
+	hasNextPage: boolean;
+	/** There's data and `getPreviousPageParam` returned a param. */
+	hasPreviousPage: boolean;
+	isFetchingNextPage: boolean;
+	isFetchingPreviousPage: boolean;
+};
+
+export type InfiniteQuery<
+	Q extends QueriesType,
+	Key extends keyof Q
+> = Readable<InfiniteQueryResult<Q, Key>> & {
+	/** Fetches the page after the last loaded page and appends it.
+	 *
+	 *  Resolves with the page's result, or `undefined` if nothing was fetched
+	 *  because there's no next page, it's already being fetched, or the whole
+	 *  query is (re)fetching. A failed page leaves the loaded pages as they
+	 *  were.
+	 */
+	fetchNextPage(): Promise<FetchPageResult<Q, Key> | undefined>;
+	/** Fetches the page before the first loaded page and prepends it. See
+	 *  `fetchNextPage`.
+	 */
+	fetchPreviousPage(): Promise<FetchPageResult<Q, Key> | undefined>;
+};
+
+/** The page state shared between every `useInfiniteQuery` of the same query. */
+type InfiniteState = {
+	/** The params of the loaded pages, so a refetch after the cache is cleared
+	 *  knows which pages were loaded.
+	 */
+	pageParams: unknown[];
+	isFetchingNextPage: Writable<boolean>;
+	isFetchingPreviousPage: Writable<boolean>;
+	/** Aborts the in-flight `fetchNextPage` or `fetchPreviousPage`. */
+	pageController: AbortController | undefined;
+	fetchNextPage: () => Promise<unknown>;
+	fetchPreviousPage: () => Promise<unknown>;
+};
+const infiniteStates = new WeakMap<object, InfiniteState>();
+
+/** See `[CreateQueryMapResponse.useInfiniteQuery]` for documentation. */
+export function useInfiniteQuery<
+	Q extends QueriesType,
+	Key extends InfiniteQueryKeys<Q>
+>(
+	queryMap: WQueryMap<Q>,
+	key: QueryKeys<Q>[Key],
+	fetchPage: FetchPage<Q, Key>,
+	options: UseInfiniteQueryOptions<Q, Key>
+): InfiniteQuery<Q, Key> {
+	type Page = PageOf<Q, Key>;
+	type Param = PageParamOf<Q, Key>;
+	const {
+		initialPageParam,
+		getNextPageParam,
+		getPreviousPageParam,
+		...queryOptions
+	} = options;
+
+	const existing = getQuery(queryMap, key);
+	const state: InfiniteState = (existing !== undefined
+		? infiniteStates.get(get(existing).class)
+		: undefined) ?? {
+		pageParams: [],
+		pageController: undefined,
+		isFetchingNextPage: writable(false),
+		isFetchingPreviousPage: writable(false),
+		fetchNextPage: () => fetchAdjacentPage("next"),
+		fetchPreviousPage: () => fetchAdjacentPage("previous")
+	};
+
+	// The params of the loaded pages. Hydrated or rehydrated data only has
+	// them in the cache until it's refetched.
+	const loadedPageParams = (): unknown[] => {
+		if (state.pageParams.length > 0) return state.pageParams;
+		const cached = getQuery(queryMap, key);
+		if (cached === undefined) return [];
+		const { data } = get(cached).cache;
+		return data[0] === "some"
+			? (data[1] as InfiniteData<Page, Param>).pageParams
+			: [];
+	};
+
+	// Refetches every loaded page in order. Params after the first come from
+	// `getNextPageParam` as cursors may have changed since they were loaded.
+	const fetch: QueryFetch<Q, Key> = async (signal) => {
+		state.pageController?.abort();
+		const loaded = loadedPageParams();
+		const pages: Page[] = [];
+		const pageParams: Param[] = [];
+		let param: Param | undefined =
+			loaded.length > 0 ? (loaded[0] as Param) : initialPageParam;
+		const count = Math.max(loaded.length, 1);
+		while (param !== undefined && pages.length < count) {
+			const result = await fetchPage(param, signal);
+			if (result[0] !== "ok") return result;
+
+			pages.push(result[1]);
+			pageParams.push(param);
+			param = getNextPageParam(result[1], pages);
+		}
+
+		state.pageParams = pageParams;
+		return ["ok", { pages, pageParams } as Q[Key]["ok"]];
+	};
+
+	// The pages are always fetched with `fetchPage`, a definition's `fetch`
+	// only knows how to fetch a single result.
+	const current = useQueryWithOwnFetch(queryMap, key, fetch, queryOptions);
+	const query = getQuery(queryMap, key);
+	if (query === undefined) {
+		throw new Error("`useInfiniteQuery` query should exist after `useQuery`");
+	}
+	infiniteStates.set(get(query).class, state);
+	// Before the cache can be cleared, e.g., by an invalidation.
+	state.pageParams = loadedPageParams();
+
+	async function fetchAdjacentPage(
+		direction: "next" | "previous"
+	): Promise<FetchPageResult<Q, Key> | undefined> {
+		if (query === undefined) return undefined;
+		const { cache, class: queryClass } = get(query);
+		if (queryClass.isFetching || !cache.hasCached) return undefined;
+		if (cache.data[0] === "none") return undefined;
+
+		const fetching =
+			direction === "next"
+				? state.isFetchingNextPage
+				: state.isFetchingPreviousPage;
+		if (get(fetching)) return undefined;
+
+		const { pages } = cache.data[1] as InfiniteData<Page, Param>;
+		const param =
+			direction === "next"
+				? getNextPageParam(pages[pages.length - 1], pages)
+				: getPreviousPageParam?.(pages[0], pages);
+		if (param === undefined) return undefined;
+
+		queryClass.trace("Fetching", direction, "page with", param);
+		fetching.set(true);
+		const fetchId = queryClass.fetchId;
+		const controller = new AbortController();
+		state.pageController = controller;
+		let result: FetchPageResult<Q, Key>;
+		try {
+			result = await fetchPage(param, controller.signal);
+		} catch (e) {
+			if (controller.signal.aborted) return undefined;
+			throw e;
+		} finally {
+			fetching.set(false);
+			if (state.pageController === controller) {
+				state.pageController = undefined;
+			}
+		}
+
+		// The whole query was refetched or cancelled while this page was
+		// loading, so the page may not line up with the others anymore.
+		if (
+			controller.signal.aborted ||
+			queryClass.isDestroyed ||
+			queryClass.isFetching ||
+			queryClass.fetchId !== fetchId
+		) {
+			queryClass.trace("Page fetch superseded, discarding result");
+			return undefined;
+		}
+
+		if (result[0] === "ok") {
+			const latest = get(query).cache.data;
+			const data = (
+				latest[0] === "some" ? latest[1] : { pages: [], pageParams: [] }
+			) as InfiniteData<Page, Param>;
+			const next: InfiniteData<Page, Param> =
+				direction === "next"
+					? {
+							pages: [...data.pages, result[1]],
+							pageParams: [...data.pageParams, param]
+					  }
+					: {
+							pages: [result[1], ...data.pages],
+							pageParams: [param, ...data.pageParams]
+					  };
+			state.pageParams = next.pageParams;
+			queryClass.setData(next as Q[Key]["ok"]);
+		}
+		return result;
+	}
+
+	const result = derived(
+		[current, state.isFetchingNextPage, state.isFetchingPreviousPage],
+		([current, isFetchingNextPage, isFetchingPreviousPage]) => {
+			let hasNextPage = false;
+			let hasPreviousPage = false;
+			if (current.status === "ok") {
+				const { pages, pageParams } = current.data as InfiniteData<Page, Param>;
+				// E.g., rehydrated from storage after the query was created.
+				if (state.pageParams.length === 0 && current.isPlaceholder !== true) {
+					state.pageParams = pageParams;
+				}
+				if (pages.length > 0) {
+					hasNextPage =
+						getNextPageParam(pages[pages.length - 1], pages) !== undefined;
+					hasPreviousPage =
+						getPreviousPageParam?.(pages[0], pages) !== undefined;
+				}
+			}
+
+			return {
+				...current,
+				hasNextPage,
+				hasPreviousPage,
+				isFetchingNextPage,
+				isFetchingPreviousPage
+			};
+		}
+	);
+
+	return {
+		subscribe: result.subscribe,
+		fetchNextPage: state.fetchNextPage as InfiniteQuery<
+			Q,
+			Key
+		>["fetchNextPage"],
+		fetchPreviousPage: state.fetchPreviousPage as InfiniteQuery<
+			Q,
+			Key
+		>["fetchPreviousPage"]
+	};
+}
@@ -10,7 +10,8 @@
  *  - Invalidation: E.g., we make a transaction and now the txn list and
  *      assets need to update. Do we clear the cache too and show loading?
  *      Do we immediately refetch the data or only if it's needed?
- *  - Storage: Do we need to store the data on-device somewhere?
+ *  - Storage: Do we need to store the data on-device somewhere? See
+ *      `QueryMapOptions.persist`.
  *
  *  The following implementation is partially inspired by Tanstack Query.
  *
@@ -18,9 +19,14 @@
  *
  *  ```svelte
  *  <script lang="ts">
- *      import { useWallet, invalidateAndRefetch, invalidate, refetch, updateData, markStale } from '$/state';
+ *      import { useWallet, useMutation, invalidateAndRefetch, invalidate, refetch, markStale } from '$/state';
  *
  *      let wallet = useWallet();
+ *      let updateUserInfo = useMutation({
+ *          mutate: (info) => putUserInfo(accessToken, info),
+ *          onMutate: (info, ctx) => ctx.updateData(['userInfo'], info),
+ *          refetches: [['userInfo']]
+ *      });
  *
  *      function onSpend() {
  *          // Mark the query stale and clear the cache. Immediately refetches the data.
@@ -40,14 +46,13 @@
  *          // fine, but we want some data always available and so immediately refetch
  *          refetch('userInfo');
  *
- * 			// You can pair `refetch` with `updateData` to get an optimistic update.
+ * 			// Use `useMutation` to get an optimistic update.
  *          // An optimistic update makes an assumption to what the data will be.
  *  		// This is useful when you want to update the UI immediately, but also
  *  		// want to keep in-sync with the server in case something goes wrong
- *  		// with the request or your assumption was wrong.
- *  		updateData(['userInfo'], mutableUserInfo);
- *  		await updateUserInfo(accessToken, mutableUserInfo);
- *  		refetch(['userInfo']);
+ *  		// with the request or your assumption was wrong. If the request
+ *  		// fails, the optimistic update is rolled back.
+ *  		await updateUserInfo.mutate(mutableUserInfo);
  *
  *          // Mark the query stale but keep the cache. Will refetch if in use.
  *          // Useful for something like a transactions list, where showing
@@ -109,6 +114,79 @@ import {
 } from "svelte/store";
 import deepEqual from "fast-deep-equal";
 import { browser } from "$app/environment";
+import {
+	useMutation,
+	type Mutation,
+	type UseMutationOptions
+} from "./mutation";
+import {
+	isUsable,
+	storageKey,
+	type PersistedQuery,
+	type QueryPersistOptions
+} from "./storage";
+import {
+	useInfiniteQuery,
+	type FetchPage,
+	type InfiniteQuery,
+	type InfiniteQueryKeys,
+	type UseInfiniteQueryOptions
+} from "./infinite";
+import { documentVisible, installTriggers, whenVisible } from "./triggers";
+import {
+	dehydrate,
+	hydrate,
+	prefetchQuery,
+	type DehydratedQuery,
+	type DehydratedState
+} from "./hydration";
+import {
+	invalidateTags,
+	normaliseTag,
+	type QueryTag,
+	type QueryTagObject,
+	type TagInvalidation
+} from "./tags";
+import { ensureQueryData, fetchQuery } from "./imperative";
+import {
+	findDependencyCycle,
+	getDependencyGraph,
+	type DependencyGraphNode
+} from "./graph";
+import { useQuerySelector, type SelectedQueryResult } from "./select";
+import { installSync, type QuerySync, type QuerySyncMessage } from "./sync";
+import { fixed } from "./retry";
+import {
+	resolveDefinition,
+	warnIfOverridden,
+	type QueryDefinitions
+} from "./definitions";
+import {
+	createMutationQueue,
+	type MutationQueue,
+	type MutationQueueOptions,
+	type OfflineMutationsType
+} from "./offline";
+import {
+	useLiveQuery,
+	type LiveQueryResult,
+	type UseLiveQueryOptions
+} from "./live";
+import {
+	createCacheIndex,
+	getCacheStats,
+	recordCacheUse,
+	updateCacheEntry,
+	type CacheIndex,
+	type CacheLimits,
+	type CacheStats
+} from "./eviction";
+import type {
+	QueryEvent,
+	QueryEventListener,
+	QueryEventPayloads,
+	QueryEventType
+} from "./events";
 
 export type QueryError = [string, unknown] | [string] | [string, QueryError];
 
@@ -140,6 +218,29 @@ export type QueryKeys<Q extends QueriesType> = {
 export type QueryKeyArr<Q extends QueriesType> =
 	QueryKeys<Q>[keyof QuerySubkeys<Q>];
 
+/** A non-empty tuple and all of its shorter non-empty prefixes. */
+type Prefixes<T extends unknown[]> = T extends []
+	? never
+	: T extends [...infer Head, unknown]
+	? T | Prefixes<Head>
+	: T;
+/** A query key or any prefix of it, e.g., `['user']` or `['user', 42]` for
+ *  the key `['user', 42, 'posts']`.
+ */
+export type QueryKeyPrefix<Q extends QueriesType> = {
+	[K in keyof QuerySubkeys<Q>]: Prefixes<QueryKeys<Q>[K]>;
+}[keyof QuerySubkeys<Q>];
+/** Selects the queries an operation like `[invalidate]` acts on. Either:
+ *
+ *  - A full key, which selects that query.
+ *  - A key prefix, which selects every query beneath it, e.g., `['user', 42]`
+ *      selects `['user', 42, 'posts']` and `['user', 42, 'friends']`.
+ *  - A predicate over each query's key and `QueryMapItem`.
+ */
+export type QueryFilter<Q extends QueriesType> =
+	| QueryKeyPrefix<Q>
+	| ((key: QueryKeyArr<Q>, item: QueryMapItem<Q, keyof Q>) => boolean);
+
 export type QueryResult<Q extends QueriesType, Key extends keyof Q> =
 	| QueryResultIdle
 	| QueryResultLoading
@@ -169,9 +270,68 @@ export type QueryResultErr<Q extends QueriesType, Key extends keyof Q> = {
 export type QueryResultOk<Q extends QueriesType, Key extends keyof Q> = {
 	status: "ok";
 	data: Q[Key]["ok"];
+	/** `data` is from `options.placeholderData` and not the query's own. The
+	 *  query is still loading. Only set when `true`.
+	 */
+	isPlaceholder?: boolean;
+};
+/** The result of a query once it's done fetching. */
+export type QuerySettledResult<Q extends QueriesType, Key extends keyof Q> =
+	| QueryResultIdle
+	| QueryResultErr<Q, Key>
+	| QueryResultOk<Q, Key>;
+
+export type WQueryMap<Q extends QueriesType> = Writable<QueryMap<Q>> & {
+	/** The options the query map was created with. */
+	options: QueryMapOptions<Q>;
+	/** Entries from `[hydrate]` waiting for their query to be created, by
+	 *  their serialised key.
+	 */
+	dehydrated: Map<string, DehydratedQuery>;
+	/** Called with every `trace` from the queries in this map, e.g., by the
+	 *  devtools to show a timeline.
+	 */
+	tracers: Set<QueryTracer>;
+	/** The queries providing tags of each type, see
+	 *  `UseQueryOptions.providesTags`.
+	 */
+	tagIndex: Map<string, Set<unknown>>;
+	/** Broadcasts changes to the other tabs if `options.sync` is set. */
+	sync: QuerySync | undefined;
+	/** The serialised keys of the `QDepQuery` dependencies of each query, by
+	 *  its serialised key. Used to detect dependency cycles.
+	 */
+	dependencyGraph: Map<string, string[]>;
+	/** The clock every timer in the query map runs on. */
+	clock: QueryClock;
+	/** The latest `ok` data shown by a query of each name, e.g., `user` for
+	 *  `['user', 1]`, and the query that showed it. Passed to
+	 *  `options.placeholderData`.
+	 */
+	previousData: Map<keyof Q, { query: unknown; data: unknown }>;
+	/** The queries with cached data by recency, for `options.cacheLimits`. */
+	cacheIndex: CacheIndex;
+};
+
+/** Where the query engine gets the time and sets its timers from. Replaced
+ *  by a virtual clock in tests, see `createTestQueryMap`.
+ */
+export type QueryClock = {
+	/** The current time, in milliseconds since the epoch. */
+	now(): number;
+	setTimeout(run: () => void, duration: number): QueryTimeout;
+	clearTimeout(timeout: QueryTimeout | undefined): void;
 };
+export type QueryTimeout = ReturnType<typeof setTimeout> | number;
 
-export type WQueryMap<Q extends QueriesType> = Writable<QueryMap<Q>>;
+/** The clock the query engine uses unless told otherwise. */
+export const realClock: QueryClock = {
+	now: () => Date.now(),
+	setTimeout: (run, duration) => setTimeout(run, duration),
+	clearTimeout: (timeout) => clearTimeout(timeout)
+};
+
+export type QueryTracer = (key: (string | number)[], args: unknown[]) => void;
 export type QueryMap<
 	Q extends QueriesType,
 	T extends QueriesType = Q,
@@ -235,7 +395,7 @@ export type QueryMapItem<Q extends QueriesType, Key extends keyof Q> = {
 		 */
 		isStale: boolean;
 		/** The timeout to mark as stale. */
-		timeout: NodeJS.Timeout | undefined;
+		timeout: QueryTimeout | undefined;
 	};
 	/** Cached data is stored until it expires. The expiry time is usually
 	 *  longer than the stale time. Cached data is always a successful response
@@ -259,7 +419,7 @@ export type QueryMapItem<Q extends QueriesType, Key extends keyof Q> = {
 		 */
 		duration: number | false;
 		/** The timeout to clear the cache. */
-		timeout: NodeJS.Timeout | undefined;
+		timeout: QueryTimeout | undefined;
 		/** Whether the query has cached data. */
 		hasCached: boolean;
 		/** The cached data.
@@ -269,6 +429,11 @@ export type QueryMapItem<Q extends QueriesType, Key extends keyof Q> = {
 		 *  `hasCached` to `false` and expect things to react to that.
 		 */
 		data: ["none"] | ["some", Q[Key]["ok"]];
+		/** When the cached data was fetched or set.
+		 *
+		 *  Set to `false` if `hasCached` is `false`.
+		 */
+		updatedAt: Date | false;
 	};
 	/** The Query instance. */
 	class: Query<Q, Key>;
@@ -298,10 +463,67 @@ export type FetchResultOk<Ok> = ["ok", Ok];
 
 export type RetryOrError<Err> = FetchResultRetry<Err> | FetchResultErr<Err>;
 
+/** A request to fetch a query's data from the server.
+ *
+ *  `signal` is aborted when the request is no longer wanted, e.g., the query
+ *  was cancelled or invalidated while fetching. Pass it along to `fetch` so
+ *  the request is actually stopped. Whatever an aborted request returns is
+ *  discarded.
+ *
+ *  `dependencies` are the values of the query's `options.dependencies`, in
+ *  the same order. See `[DependencyValues]`.
+ *
+ *  Return `err` or `retry` rather than throwing. A fetch that throws anyway
+ *  ends in `err` with whatever was thrown as its `err`, which may not match
+ *  the query's `err` type.
+ */
+export type QueryFetch<
+	Q extends QueriesType,
+	Key extends keyof Q,
+	Deps extends readonly unknown[] = unknown[]
+> = (signal: AbortSignal, dependencies: Deps) => Promise<FetchResult<Q, Key>>;
+
+/** The values passed to `fetch` for each of a query's `dependencies`:
+ *
+ *  - `QDepQuery`: The dependency's latest `ok` data, or `undefined` if it
+ *      doesn't have any yet. Have its `onChange` return `stop` until it's
+ *      `ok` to never see `undefined`.
+ *  - `QDepSubscription`: The subscription's current value.
+ *
+ *  # Example
+ *  ```ts
+ *  useQuery(
+ *      ['transactions'],
+ *      (signal, [token, wallet]) => getTransactions(token, wallet?.id, signal),
+ *      { dependencies: [authTokenDep, walletDep] }
+ *  );
+ *  ```
+ */
+export type DependencyValues<Deps extends readonly unknown[]> = {
+	[I in keyof Deps]: Deps[I] extends QDepSubscription<infer T>
+		? T
+		: Deps[I] extends { onChange: (last: never, current: infer R) => unknown }
+		? Extract<R, { status: "ok" }> extends { data: infer Data }
+			? Data | undefined
+			: never
+		: never;
+};
+
+/** The options taken by `useQuery` and co. `dependencies` is kept as a tuple
+ *  so the `[DependencyValues]` passed to `fetch` can be inferred from it.
+ */
+export type UseQueryOptionsArg<
+	Q extends QueriesType,
+	Key extends keyof Q,
+	Deps extends QueryDependency<Q>[]
+> = Omit<RecursivePartial<UseQueryOptions<Q, Key>>, "dependencies"> & {
+	dependencies?: [...Deps];
+};
+
 export const QUERY_INIT = Symbol("QUERY_INIT");
 
 export type QueryDependency<Q extends QueriesType> =
-	| QDepQuery<Q, keyof Q>
+	| { [K in keyof Q]: QDepQuery<Q, K> }[keyof Q]
 	| QDepSubscription<any>;
 export class QDepQuery<Q extends QueriesType, Key extends keyof Q> {
 	/** The query key to depend on.
@@ -406,6 +628,8 @@ export type UseQueryOptions<Q extends QueriesType, Key extends keyof Q> = {
 	 *
 	 *  Return `false` to stop retrying and return the error. Return a number to
 	 *  wait that many milliseconds before retrying.
+	 *
+	 *  See `./retry` for policies like `exponentialBackoff` and `retryIf`.
 	 */
 	onRetry: (count: number, err: Q[Key]["err"]) => false | number;
 
@@ -450,6 +674,87 @@ export type UseQueryOptions<Q extends QueriesType, Key extends keyof Q> = {
 		 */
 		duration: (last: Q[Key]["ok"]) => number | false;
 	};
+
+	/** How many milliseconds after the last subscriber leaves before the query
+	 *  is destroyed and removed from the query map. `false` means the query is
+	 *  never destroyed.
+	 *
+	 *  A query is kept alive while other queries depend on it. If the query is
+	 *  persisted, its storage is kept so it can be rehydrated when next used.
+	 */
+	gcTime: number | false;
+
+	/** Whether to mark the query stale and refetch it when the window regains
+	 *  focus, if it's in use and not already fetching.
+	 */
+	refetchOnWindowFocus: boolean;
+	/** Whether to mark the query stale and refetch it when the network
+	 *  reconnects, if it's in use and not already fetching.
+	 */
+	refetchOnReconnect: boolean;
+	/** Whether to pause the stale timer and retries while the document is
+	 *  hidden (e.g., the tab is in the background). The query is marked stale
+	 *  and retries continue once the document is visible again.
+	 *
+	 *  Useful for something like a dashboard that's left open in a background
+	 *  tab, where nobody is looking at the data being refetched.
+	 */
+	pauseWhenHidden: boolean;
+
+	/** How many milliseconds after a fetch completes to refetch the query, or
+	 *  `false` to not poll. Can also be a function of the fetch's result, e.g.,
+	 *  to poll a job until it has finished.
+	 *
+	 *  Polls go through the usual fetch, so they're skipped while the query is
+	 *  already fetching or stopped by a dependency. While the query is retrying
+	 *  no polls happen, the next is scheduled once the retries finish.
+	 */
+	refetchInterval:
+		| number
+		| false
+		| ((last: QueryResult<Q, Key>) => number | false);
+	/** Whether to keep polling while the query is unused (i.e., nothing is
+	 *  currently subscribed to the query). Otherwise polling resumes when it's
+	 *  next subscribed to.
+	 */
+	refetchIntervalIfUnused: boolean;
+
+	/** The cache tags the query provides, or a function of its cached data
+	 *  returning them. Used by `[invalidateTags]` to find the queries
+	 *  containing an entity without knowing their keys.
+	 *
+	 *  # Example
+	 *  ```ts
+	 *  providesTags: (posts) => [
+	 *      'Post',
+	 *      ...posts.map((post) => ({ type: 'Post', id: post.id }))
+	 *  ]
+	 *  ```
+	 */
+	providesTags: QueryTag[] | ((data: Q[Key]["ok"]) => QueryTag[]);
+
+	/** Data to seed the cache with when the query is created, e.g., from a
+	 *  list query that already has it. It's treated like fetched data, so the
+	 *  query only fetches once `stale.duration` says it's stale. Return
+	 *  `undefined` to fetch as usual.
+	 *
+	 *  Ignored if the query is hydrated.
+	 */
+	initialData: () => Q[Key]["ok"] | undefined;
+	/** When `initialData` was fetched, in milliseconds since the epoch, so the
+	 *  stale and cache timers start from then. Defaults to now.
+	 */
+	initialDataUpdatedAt: () => number | undefined;
+	/** Data to show while the query is loading. Unlike `initialData` it's
+	 *  never cached, and the result is flagged `isPlaceholder`.
+	 *
+	 *  `previous` is the latest data shown by a query with the same name, so
+	 *  pass `[keepPreviousData]` to keep showing `['user', 1]` while
+	 *  `['user', 2]` loads.
+	 */
+	placeholderData: (
+		previous: Q[Key]["ok"] | undefined
+	) => Q[Key]["ok"] | undefined;
 };
 
 export type RecursivePartial<T> = {
@@ -478,19 +783,140 @@ function recursiveRemoveUndefined<T extends object>(
 	return obj as RecursiveExcludeUndefined<T>;
 }
 
+/** Options for the query map as a whole, as opposed to `UseQueryOptions`
+ *  which are set per query.
+ */
+export type QueryMapOptions<Q extends QueriesType> = {
+	/** Persist successful cache entries to on-device storage, and rehydrate
+	 *  queries from them when they are next created (e.g., after a reload).
+	 *
+	 *  Rehydrated data is treated as cached, stale data. It is shown
+	 *  immediately and refetched according to the `stale` rules. Entries are
+	 *  removed when the query is invalidated or its cache expires, but not
+	 *  when a fetch fails, so going offline doesn't lose them.
+	 */
+	persist?: QueryPersistOptions<Q>;
+
+	/** This query map lives on the server and is only used for a single
+	 *  request, e.g., it was created in a `load` function to prefetch queries
+	 *  for SSR. Queries fetch on the server instead of waiting for the browser,
+	 *  and don't start stale or cache timers.
+	 *
+	 *  Never share a server query map between requests, otherwise one user's
+	 *  data can end up in another user's page.
+	 */
+	server?: boolean;
+
+	/** The `[dehydrate]`d state of a server query map, usually from page data.
+	 *  Queries created with a matching key start in `ok` with the server's
+	 *  stale and cache times. Ignored on the server unless `server` is set.
+	 */
+	hydrate?: DehydratedState;
+
+	/** Called with every event from the queries in this map, e.g., for dev
+	 *  logging with `[consoleLogger]`, telemetry or asserting behaviour in
+	 *  tests. Errors thrown by the listener are caught and logged.
+	 */
+	onEvent?: QueryEventListener<Q>;
+
+	/** Keep the queries in sync with the other tabs of the app. Cache writes,
+	 *  cache clears and stale markings are broadcast over a `BroadcastChannel`
+	 *  and applied to the same queries in the other tabs. A tab that's
+	 *  refetching a query broadcasts the result, so the other tabs don't
+	 *  fetch it too. A failed fetch only clears this tab's cache, the other
+	 *  tabs keep theirs and fetch it themselves if they were waiting.
+	 *
+	 *  Pass a string to name the channel, which is needed if the app has more
+	 *  than one synced query map. Only applies in the browser.
+	 */
+	sync?: boolean | string;
+
+	/** What to do when a query is created with `QDepQuery` dependencies that
+	 *  lead back to itself. Such queries can refetch each other without end,
+	 *  or stop each other forever.
+	 *
+	 *  - `warn`: Log a warning and create the query anyway. The default.
+	 *  - `throw`: Throw from `useQuery` without creating the query.
+	 */
+	dependencyCycles?: "warn" | "throw";
+
+	/** How many milliseconds a query waits for a `QDepQuery` dependency that
+	 *  doesn't exist yet before it's reported with a warning and a
+	 *  `dependencyUnresolved` event. The query keeps waiting after. `false`,
+	 *  the default, never reports.
+	 */
+	unresolvedDependencyTimeout?: number | false;
+
+	/** Overrides whether the query map is in the browser, which is where
+	 *  queries fetch unless this is a `server` query map. Defaults to
+	 *  `browser` from `$app/environment`. Tests set it to `true` to fetch
+	 *  outside a browser while still running timers.
+	 */
+	browser?: boolean;
+
+	/** The clock to run the stale, cache, retry and other timers on. Defaults
+	 *  to `realClock`.
+	 */
+	clock?: QueryClock;
+
+	/** How to fetch each query, by name, so `useQuery` only needs a key. This
+	 *  keeps one fetch and set of options per query, instead of whichever
+	 *  component created the query first deciding them.
+	 *
+	 *  # Example
+	 *  ```ts
+	 *  createQueryMap<Queries>({
+	 *      queries: {
+	 *          user: {
+	 *              fetch: (id) => (signal) => getUser(id, signal),
+	 *              options: { stale: { duration: () => 60_000 } }
+	 *          }
+	 *      }
+	 *  });
+	 *
+	 *  const user = useQuery(['user', id]);
+	 *  ```
+	 */
+	queries?: QueryDefinitions<Q>;
+
+	/** Bounds the cached data kept in memory. Cached data never expires by
+	 *  default, so without limits it grows with every query that's used.
+	 *
+	 *  When over a limit, the caches of the least recently used queries are
+	 *  cleared until it's within them again. Queries with subscribers, or
+	 *  queries depending on them, are never evicted. An evicted query is
+	 *  refetched when it's next used. Other tabs and `persist` keep their
+	 *  copy of the data.
+	 *
+	 *  Pass `{}` to only collect `[CreateQueryMapResponse.getCacheStats]`.
+	 *
+	 *  # Example
+	 *  ```ts
+	 *  createQueryMap<Queries>({
+	 *      cacheLimits: { maxEntries: 200, maxBytes: 5_000_000 }
+	 *  });
+	 *  ```
+	 */
+	cacheLimits?: CacheLimits;
+};
+
 export type CreateQueryMapResponse<Q extends QueriesType> = {
 	queryMap: WQueryMap<Q>;
 
 	/** Retrieves a query from its key if it's already in the `queryMap`, or
 	 *  creates a new query and inserts it into the `queryMap`.
 	 *
+	 *  A query with a definition in `QueryMapOptions.queries` always uses its
+	 *  definition's `fetch` and `options`, and warns if others are passed.
+	 *  Without either a `fetch` or a definition, creating the query throws.
+	 *
 	 *  To just get a query without creating it if it doesn't exist, use
 	 *  `getQuery` instead.
 	 */
-	useQuery<Key extends keyof Q>(
+	useQuery<Key extends keyof Q, Deps extends QueryDependency<Q>[] = []>(
 		key: QueryKeys<Q>[Key],
-		fetch: () => Promise<FetchResult<Q, Key>>,
-		options?: RecursivePartial<UseQueryOptions<Q, Key>>
+		fetch?: QueryFetch<Q, Key, DependencyValues<Deps>>,
+		options?: UseQueryOptionsArg<Q, Key, Deps>
 	): Readable<QueryResult<Q, Key>>;
 
 	/** Returns a query by its key if it's already been created. */
@@ -498,14 +924,42 @@ export type CreateQueryMapResponse<Q extends QueriesType> = {
 		key: QueryKeys<Q>[Key]
 	): Writable<QueryMapItem<Q, Key>> | undefined;
 
+	/** Like `useQuery`, but the `ok` data is passed through `selector`, and the
+	 *  store only updates when the selected value changes (by deep equality).
+	 *  Parts of the selected value that haven't changed keep the same
+	 *  references as the last result, so keyed `each` blocks stay stable.
+	 *
+	 *  `fetch` is only needed if the query might not have been created yet
+	 *  and has no definition, otherwise this throws.
+	 *
+	 *  # Example
+	 *  ```ts
+	 *  const total = useQuerySelector(['wallet'], (wallet) => wallet.total);
+	 *  ```
+	 */
+	useQuerySelector<
+		Key extends keyof Q,
+		T,
+		Deps extends QueryDependency<Q>[] = []
+	>(
+		key: QueryKeys<Q>[Key],
+		selector: (data: Q[Key]["ok"]) => T,
+		fetch?: QueryFetch<Q, Key, DependencyValues<Deps>>,
+		options?: UseQueryOptionsArg<Q, Key, Deps>
+	): Readable<SelectedQueryResult<Q, Key, T>>;
+
 	/** Mark the query stale and clear the cache. Immediately refetches the data,
 	 *  even if not in use.
 	 *
 	 *  Useful for something like clearing the wallet, where showing inaccurate
 	 *  data is worse than showing a loading, and we always want available
 	 *  wherever possible (thus the immediate refetch)
+	 *
+	 *  Like `invalidate`, `refetch` and `markStale`, this acts on every query
+	 *  selected by the `[QueryFilter]`, so passing a prefix like `['user', 42]`
+	 *  acts on every query beneath it.
 	 */
-	invalidateAndRefetch<Key extends keyof Q>(key: QueryKeys<Q>[Key]): void;
+	invalidateAndRefetch(filter: QueryFilter<Q>): void;
 
 	/** Mark the query stale and clear the cache. Will refetch according to the
 	 *  `stale` rules in the query options.
@@ -514,7 +968,7 @@ export type CreateQueryMapResponse<Q extends QueriesType> = {
 	 *  worse than showing a loading, and isn't used much (the user will be fine
 	 *  seeing a loading screen)
 	 */
-	invalidate<Key extends keyof Q>(key: QueryKeys<Q>[Key]): void;
+	invalidate(filter: QueryFilter<Q>): void;
 
 	/** Mark the query stale but keep the cache. Immediately refetches the data,
 	 *  even if not in use.
@@ -522,7 +976,7 @@ export type CreateQueryMapResponse<Q extends QueriesType> = {
 	 *  Useful for something like user info, where showing inaccurate data is fine,
 	 *  but we want some data always available and so immediately refetch.
 	 */
-	refetch<Key extends keyof Q>(key: QueryKeys<Q>[Key]): void;
+	refetch(filter: QueryFilter<Q>): void;
 
 	/** Mark the query stale but keep the cache. Will refetch according to the
 	 *  `stale` rules in the query options.
@@ -531,7 +985,21 @@ export type CreateQueryMapResponse<Q extends QueriesType> = {
 	 *  fine, but obviously we want to update it ASAP if the user is looking at it
 	 *  and we don't want a loading symbol.
 	 */
-	markStale<Key extends keyof Q>(key: QueryKeys<Q>[Key]): void;
+	markStale(filter: QueryFilter<Q>): void;
+
+	/** Runs `operation` on every query providing a tag matching one of `tags`.
+	 *  A tag without an `id` matches every tag of its type. Defaults to
+	 *  `markStale`.
+	 *
+	 *  Useful after a mutation, to update exactly the queries containing the
+	 *  changed entity without knowing their keys.
+	 *
+	 *  # Example
+	 *  ```ts
+	 *  invalidateTags([{ type: 'Post', id: post.id }], 'invalidate');
+	 *  ```
+	 */
+	invalidateTags(tags: QueryTag[], operation?: TagInvalidation): void;
 
 	/** Update the `data` and `cache` of a query with your own data.
 	 *
@@ -555,12 +1023,276 @@ export type CreateQueryMapResponse<Q extends QueriesType> = {
 		key: QueryKeys<Q>[Key],
 		data: Q[Key]["ok"]
 	): void;
+
+	/** Aborts the query's in-flight fetch through the `AbortSignal` passed to
+	 *  its `fetch`, and discards whatever it returns. The query goes back to
+	 *  the result of its last completed fetch and stays stale, so it's fetched
+	 *  again next time it's needed.
+	 *
+	 *  Useful for something like a search, where the user has navigated away
+	 *  and the results are no longer wanted.
+	 */
+	cancel<Key extends keyof Q>(key: QueryKeys<Q>[Key]): void;
+
+	/** Creates a mutation, the write-side counterpart to `useQuery`.
+	 *
+	 *  Optimistic updates made through the `ctx` passed to `onMutate` are
+	 *  rolled back automatically if the mutation fails. On success, the
+	 *  queries listed in `invalidates` and `refetches` are invalidated and
+	 *  refetched respectively.
+	 *
+	 *  # Example
+	 *  ```ts
+	 *  const updateUserInfo = useMutation({
+	 *      mutate: (info: UserInfo) => putUserInfo(accessToken, info),
+	 *      onMutate: (info, ctx) => ctx.updateData(['userInfo'], info),
+	 *      refetches: [['userInfo']]
+	 *  });
+	 *
+	 *  await updateUserInfo.mutate(mutableUserInfo);
+	 *  ```
+	 */
+	useMutation<Vars, Data, Err>(
+		options: UseMutationOptions<Q, Vars, Data, Err>
+	): Mutation<Vars, Data, Err>;
+
+	/** Creates a queue for mutations that must not be lost while offline.
+	 *
+	 *  A mutation whose `mutate` returns `retry` (e.g., a network error
+	 *  through `apiMutation`) keeps its optimistic updates and waits in the
+	 *  queue, which is saved to `storage`. The queue is sent in order when the
+	 *  network reconnects, and after a reload. Mutations the server rejects
+	 *  once they're sent are reported in `conflicts`, and the queries they
+	 *  updated are invalidated.
+	 *
+	 *  Only create one queue per storage, at the same place as the query map,
+	 *  and `destroy` it along with the query map.
+	 *
+	 *  # Example
+	 *  ```ts
+	 *  type Mutations = {
+	 *      saveNote: { vars: Note; data: Note; err: ApiQueryError<Errors> };
+	 *  };
+	 *  const notes = createMutationQueue<Mutations>({
+	 *      storage: localStorageQueueStorage(),
+	 *      mutations: {
+	 *          saveNote: {
+	 *              mutate: apiMutation('saveNote', (note) => putNote(note)),
+	 *              onMutate: (note, ctx) => ctx.updateData(['note', note.id], note)
+	 *          }
+	 *      }
+	 *  });
+	 *
+	 *  const saveNote = notes.useMutation('saveNote');
+	 *  await saveNote.mutate(note);
+	 *  ```
+	 */
+	createMutationQueue<M extends OfflineMutationsType>(
+		options: MutationQueueOptions<Q, M>
+	): MutationQueue<M>;
+
+	/** Like `useQuery`, but for data that is fetched a page at a time, e.g.,
+	 *  through a cursor. The query's `ok` data must be an `InfiniteData`, which
+	 *  holds every loaded page in order.
+	 *
+	 *  The loaded pages are one query, so the stale and cache rules apply to
+	 *  the whole page set. When the query is refetched or invalidated, every
+	 *  loaded page is refetched in order.
+	 *
+	 *  If the query has a definition in `QueryMapOptions.queries`, its options
+	 *  are used, but the pages are still fetched with `fetchPage`.
+	 *
+	 *  # Example
+	 *  ```svelte
+	 *  <script lang="ts">
+	 *      const posts = useInfiniteQuery(
+	 *          ['posts', channelId],
+	 *          (cursor, signal) => getPosts(channelId, cursor, signal),
+	 *          {
+	 *              initialPageParam: null,
+	 *              getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined
+	 *          }
+	 *      );
+	 *  </script>
+	 *
+	 *  {#if $posts.status === 'ok'}
+	 *      {#each $posts.data.pages as page}
+	 *          {#each page.posts as post}
+	 *              <Post {post} />
+	 *          {/each}
+	 *      {/each}
+	 *      {#if $posts.hasNextPage}
+	 *          <button
+	 *              disabled={$posts.isFetchingNextPage}
+	 *              on:click={posts.fetchNextPage}
+	 *          >
+	 *              Load more
+	 *          </button>
+	 *      {/if}
+	 *  {/if}
+	 *  ```
+	 */
+	useInfiniteQuery<Key extends InfiniteQueryKeys<Q>>(
+		key: QueryKeys<Q>[Key],
+		fetchPage: FetchPage<Q, Key>,
+		options: UseInfiniteQueryOptions<Q, Key>
+	): InfiniteQuery<Q, Key>;
+
+	/** Like `useQuery`, but the data is then kept up to date by messages
+	 *  pushed from the server, e.g., through `sseSource` or `webSocketSource`.
+	 *  `reduce` applies each message to the cached data.
+	 *
+	 *  The connection is opened when the query gets its first subscriber and
+	 *  closed when it loses its last. If it drops, it's reopened after the
+	 *  `reconnect` delay and the query is refetched, as messages may have been
+	 *  missed in between. The state of the connection is in `connection`.
+	 *  Outside the browser and in server query maps, the connection is never
+	 *  opened and stays `closed`, e.g., during SSR.
+	 *
+	 *  # Example
+	 *  ```svelte
+	 *  <script lang="ts">
+	 *      const messages = useLiveQuery(
+	 *          ['messages', channelId],
+	 *          () => getMessages(channelId),
+	 *          {
+	 *              source: sseSource((signal) =>
+	 *                  fetch(`/api/channels/${channelId}/events`, { signal })
+	 *              ),
+	 *              reduce: (messages, message) => [
+	 *                  ...messages.filter(({ id }) => id !== message.id),
+	 *                  message
+	 *              ]
+	 *          }
+	 *      );
+	 *  </script>
+	 *
+	 *  {#if $messages.connection === 'reconnecting'}
+	 *      <p>Reconnecting...</p>
+	 *  {/if}
+	 *  ```
+	 */
+	useLiveQuery<
+		Key extends keyof Q,
+		Message,
+		Deps extends QueryDependency<Q>[] = []
+	>(
+		key: QueryKeys<Q>[Key],
+		fetch: QueryFetch<Q, Key, DependencyValues<Deps>> | undefined,
+		options: UseLiveQueryOptions<Q, Key, Message, Deps>
+	): Readable<LiveQueryResult<Q, Key>>;
+
+	/** Creates the query if needed and resolves once it has finished fetching,
+	 *  with either its data or its error. Resolves with `idle` if a dependency
+	 *  stops the query.
+	 *
+	 *  Mostly useful with a `server` query map in a `load` function, followed
+	 *  by `dehydrate` to send the results to the client.
+	 *
+	 *  # Example
+	 *  ```ts
+	 *  // +page.ts
+	 *  export const load = async ({ fetch }) => {
+	 *      const { prefetchQuery, dehydrate } = createQueryMap<Queries>({
+	 *          server: true
+	 *      });
+	 *      await prefetchQuery(['wallet'], () => getWallet(fetch));
+	 *      return { queries: dehydrate() };
+	 *  };
+	 *
+	 *  // +page.svelte
+	 *  hydrate(data.queries);
+	 *  const wallet = useWallet(); // Starts in `ok`
+	 *  ```
+	 */
+	prefetchQuery<Key extends keyof Q, Deps extends QueryDependency<Q>[] = []>(
+		key: QueryKeys<Q>[Key],
+		fetch?: QueryFetch<Q, Key, DependencyValues<Deps>>,
+		options?: UseQueryOptionsArg<Q, Key, Deps>
+	): Promise<QueryResult<Q, Key>>;
+
+	/** Serialises every query with cached data, so it can be sent to the
+	 *  client and passed to `hydrate`.
+	 */
+	dehydrate(): DehydratedState;
+
+	/** Seeds queries with data from a `dehydrate`d server query map. Queries
+	 *  that already exist are updated if the hydrated data is newer, the rest
+	 *  are seeded when they're created. Does nothing on the server unless this
+	 *  is a `server` query map.
+	 */
+	hydrate(state: DehydratedState): void;
+
+	/** Resolves with the query's `ok` data, or rejects with its `err`, for
+	 *  code outside components that wants to `await` a query, e.g., a `load`
+	 *  function or an event handler. Creates the query if it doesn't exist.
+	 *
+	 *  Fresh (i.e., not stale) cached data is returned without fetching.
+	 *  Otherwise the query is fetched, and every concurrent caller waits on
+	 *  the same fetch.
+	 *
+	 *  # Example
+	 *  ```ts
+	 *  try {
+	 *      const wallet = await fetchQuery(['wallet'], fetchWallet);
+	 *  } catch (err) {
+	 *      if (err[0] === 'Network') ...
+	 *  }
+	 *  ```
+	 */
+	fetchQuery<Key extends keyof Q, Deps extends QueryDependency<Q>[] = []>(
+		key: QueryKeys<Q>[Key],
+		fetch?: QueryFetch<Q, Key, DependencyValues<Deps>>,
+		options?: UseQueryOptionsArg<Q, Key, Deps>
+	): Promise<Q[Key]["ok"]>;
+
+	/** Like `fetchQuery`, but returns any cached data, even if it's stale. Only
+	 *  fetches if there's no cached data. `fetch` is only needed if the query
+	 *  might not have been created yet and has no definition, otherwise this
+	 *  throws.
+	 */
+	ensureQueryData<Key extends keyof Q, Deps extends QueryDependency<Q>[] = []>(
+		key: QueryKeys<Q>[Key],
+		fetch?: QueryFetch<Q, Key, DependencyValues<Deps>>,
+		options?: UseQueryOptionsArg<Q, Key, Deps>
+	): Promise<Q[Key]["ok"]>;
+
+	/** Returns every query with its dependencies, and whether they're
+	 *  resolved and stopping it. Useful for working out why a query is `idle`.
+	 */
+	getDependencyGraph(): DependencyGraphNode[];
+
+	/** Returns how many queries have cached data, how big it is, and how
+	 *  often it was there when needed, to tune `QueryMapOptions.cacheLimits`.
+	 *  Everything is `0` unless `cacheLimits` is set.
+	 */
+	getCacheStats(): CacheStats;
+
+	/** Stops listening for window focus, reconnects and other tabs, so the
+	 *  query map can be garbage collected. Its queries keep their data but no
+	 *  longer refetch on those triggers or sync with other tabs.
+	 */
+	destroy(): void;
 };
 
-export function createQueryMap<
-	Q extends QueriesType
->(): CreateQueryMapResponse<Q> {
-	const queryMap: WQueryMap<Q> = writable({});
+export function createQueryMap<Q extends QueriesType>(
+	options: QueryMapOptions<Q> = {}
+): CreateQueryMapResponse<Q> {
+	const queryMap: WQueryMap<Q> = {
+		...writable({}),
+		options,
+		dehydrated: new Map(),
+		tracers: new Set(),
+		tagIndex: new Map(),
+		sync: undefined,
+		dependencyGraph: new Map(),
+		clock: options.clock ?? realClock,
+		previousData: new Map(),
+		cacheIndex: createCacheIndex()
+	};
+	if (options.hydrate !== undefined) hydrate(queryMap, options.hydrate);
+	const removeTriggers = installTriggers(queryMap);
+	queryMap.sync = installSync(queryMap);
 
 	return {
 		queryMap,
@@ -570,38 +1302,148 @@ export function createQueryMap<
 		getQuery(this: void, key) {
 			return getQuery(queryMap, key);
 		},
-		invalidateAndRefetch(this: void, key) {
-			return invalidateAndRefetch(queryMap, key);
+		useQuerySelector(this: void, key, selector, fetch, options = {}) {
+			return useQuerySelector(queryMap, key, selector, fetch, options);
+		},
+		invalidateAndRefetch(this: void, filter) {
+			return invalidateAndRefetch(queryMap, filter);
+		},
+		invalidate(this: void, filter) {
+			return invalidate(queryMap, filter);
 		},
-		invalidate(this: void, key) {
-			return invalidate(queryMap, key);
+		refetch(this: void, filter) {
+			return refetch(queryMap, filter);
 		},
-		refetch(this: void, key) {
-			return refetch(queryMap, key);
+		markStale(this: void, filter) {
+			return markStale(queryMap, filter);
 		},
-		markStale(this: void, key) {
-			return markStale(queryMap, key);
+		invalidateTags(this: void, tags, operation) {
+			return invalidateTags(queryMap, tags, operation);
 		},
 		updateData(this: void, key, data) {
 			return updateData(queryMap, key, data);
+		},
+		cancel(this: void, key) {
+			return cancel(queryMap, key);
+		},
+		useMutation(this: void, options) {
+			return useMutation(queryMap, options);
+		},
+		createMutationQueue(this: void, options) {
+			return createMutationQueue(queryMap, options);
+		},
+		useInfiniteQuery(this: void, key, fetchPage, options) {
+			return useInfiniteQuery(queryMap, key, fetchPage, options);
+		},
+		useLiveQuery(this: void, key, fetch, options) {
+			return useLiveQuery(queryMap, key, fetch, options);
+		},
+		prefetchQuery(this: void, key, fetch, options = {}) {
+			return prefetchQuery(queryMap, key, fetch, options);
+		},
+		dehydrate(this: void) {
+			return dehydrate(queryMap);
+		},
+		hydrate(this: void, state) {
+			return hydrate(queryMap, state);
+		},
+		fetchQuery(this: void, key, fetch, options = {}) {
+			return fetchQuery(queryMap, key, fetch, options);
+		},
+		ensureQueryData(this: void, key, fetch, options = {}) {
+			return ensureQueryData(queryMap, key, fetch, options);
+		},
+		getDependencyGraph(this: void) {
+			return getDependencyGraph(queryMap);
+		},
+		getCacheStats(this: void) {
+			return getCacheStats(queryMap);
+		},
+		destroy(this: void) {
+			removeTriggers();
+			queryMap.sync?.close();
+			queryMap.sync = undefined;
 		}
 	};
 }
 
 /** See `[CreateQueryMapResponse.useQuery]` for documentation. */
-export function useQuery<Q extends QueriesType, Key extends keyof Q>(
+export function useQuery<
+	Q extends QueriesType,
+	Key extends keyof Q,
+	Deps extends QueryDependency<Q>[] = []
+>(
+	queryMap: WQueryMap<Q>,
+	key: QueryKeys<Q>[Key],
+	fetch?: QueryFetch<Q, Key, DependencyValues<Deps>>,
+	options?: UseQueryOptionsArg<Q, Key, Deps>
+): Readable<QueryResult<Q, Key>> {
+	warnIfOverridden(queryMap, key, fetch, options);
+	return findOrCreateQuery(
+		queryMap,
+		key,
+		(definition) =>
+			definition?.fetch ?? (fetch as QueryFetch<Q, Key> | undefined),
+		options
+	);
+}
+
+/** Like `useQuery`, but the query always fetches with `fetch`, even if it has
+ *  a definition. The definition's options are still used. For queries that
+ *  need to fetch in their own way, like `useInfiniteQuery`'s pages.
+ */
+export function useQueryWithOwnFetch<
+	Q extends QueriesType,
+	Key extends keyof Q,
+	Deps extends QueryDependency<Q>[] = []
+>(
+	queryMap: WQueryMap<Q>,
+	key: QueryKeys<Q>[Key],
+	fetch: QueryFetch<Q, Key>,
+	options?: UseQueryOptionsArg<Q, Key, Deps>
+): Readable<QueryResult<Q, Key>> {
+	warnIfOverridden(queryMap, key, undefined, options);
+	return findOrCreateQuery(queryMap, key, () => fetch, options);
+}
+
+/** Returns the query's `current` store, creating the query with the fetch
+ *  `chooseFetch` returns, and its definition's options or `options`, if it
+ *  doesn't exist yet.
+ */
+function findOrCreateQuery<
+	Q extends QueriesType,
+	Key extends keyof Q,
+	Deps extends QueryDependency<Q>[] = []
+>(
 	queryMap: WQueryMap<Q>,
 	key: QueryKeys<Q>[Key],
-	fetch: () => Promise<FetchResult<Q, Key>>,
-	options?: RecursivePartial<UseQueryOptions<Q, Key>>
+	chooseFetch: (
+		definition: ReturnType<typeof resolveDefinition<Q, Key>>
+	) => QueryFetch<Q, Key> | undefined,
+	options?: UseQueryOptionsArg<Q, Key, Deps>
 ): Readable<QueryResult<Q, Key>> {
 	const existingQuery = getQuery(queryMap, key);
 	if (existingQuery !== undefined) {
 		return get(existingQuery).current;
 	}
 
-	// Otherwise, create the query
-	const query = new Query(queryMap, key, fetch, options).query;
+	// Otherwise, create the query from its definition or the arguments
+	const definition = resolveDefinition(queryMap, key);
+	const queryFetch = chooseFetch(definition);
+	if (queryFetch === undefined) {
+		const name = String(key[0]);
+		throw new Error(
+			`\`${name}\` query has no \`fetch\`, pass one or define it in \`queries\``
+		);
+	}
+	const query = new Query(
+		queryMap,
+		key,
+		queryFetch,
+		(definition?.options ?? options) as RecursivePartial<
+			UseQueryOptions<Q, Key>
+		>
+	).query;
 
 	// And add it to the query map
 	queryMap.update((queryMap) => {
@@ -650,16 +1492,35 @@ export function getQuery<Q extends QueriesType, Key extends keyof Q>(
 export class Query<Q extends QueriesType, Key extends keyof Q> {
 	key: QueryKeys<Q>[Key];
 	/** A request to fetch the data from the server. */
-	fetch: () => Promise<FetchResult<Q, Key>>;
+	fetch: QueryFetch<Q, Key>;
 	/** The query is currently fetching. */
 	isFetching: boolean = false;
+	/** Aborts the in-flight fetch, if there is one. */
+	abortController: AbortController | undefined;
+	/** Incremented every time a fetch starts or is cancelled. A fetch whose id
+	 *  no longer matches has been superseded and its result is discarded.
+	 */
+	fetchId: number = 0;
+	/** The result of the last fetch to complete, or the last `setData`. Used
+	 *  to restore `current` when a fetch is cancelled.
+	 */
+	settled: QuerySettledResult<Q, Key> = {
+		status: "idle"
+	};
+	/** Resolves when the in-flight fetch settles. Shared by everything
+	 *  waiting on it, see `whenSettled`.
+	 */
+	private inFlight:
+		| {
+				promise: Promise<QuerySettledResult<Q, Key>>;
+				resolve: (result: QuerySettledResult<Q, Key>) => void;
+		  }
+		| undefined;
 	/** Query options. Cannot be mutated after creation. */
 	options: UseQueryOptions<Q, Key> = {
 		dependencies: [],
-		onRetry(count: number): number | false {
-			// By default, retry 2 more times immediately
-			return count > 3 ? false : 0;
-		},
+		// By default, retry 3 times immediately, or when the server asks
+		onRetry: fixed(0),
 		stale: {
 			onSubscribeIfUnused: false,
 			// By default, queries never go stale
@@ -669,7 +1530,19 @@ export class Query<Q extends QueriesType, Key extends keyof Q> {
 		cache: {
 			// By default, query caches never expire
 			duration: () => false
-		}
+		},
+		// By default, queries are never garbage collected
+		gcTime: false,
+		refetchOnWindowFocus: false,
+		refetchOnReconnect: false,
+		pauseWhenHidden: false,
+		// By default, queries don't poll
+		refetchInterval: false,
+		refetchIntervalIfUnused: false,
+		providesTags: [],
+		initialData: () => undefined,
+		initialDataUpdatedAt: () => undefined,
+		placeholderData: () => undefined
 	};
 	/** The query map this query belongs to. */
 	queryMap: WQueryMap<Q>;
@@ -678,6 +1551,46 @@ export class Query<Q extends QueriesType, Key extends keyof Q> {
 	stoppedBy: Set<number> = new Set();
 	/** The unsubscribe functions on dependencies. For cleanup. */
 	dependencyUnsubscribers: Readable<Unsubscriber>[] = [];
+	/** The serialised keys of the `QDepQuery` dependencies, as recorded in the
+	 *  query map's `dependencyGraph`.
+	 */
+	private dependencyEdges: string[] = [];
+	/** The queries depending on this query. They keep it from being garbage
+	 *  collected.
+	 */
+	dependents: Set<unknown> = new Set();
+	/** The number of subscribers to `query.current`. */
+	subscribers: number = 0;
+	/** The timeout to garbage collect the query. */
+	gcTimeout: QueryTimeout | undefined;
+	/** The query has been destroyed and should no longer do anything. */
+	isDestroyed: boolean = false;
+	/** The stale timer ran out while the document was hidden and
+	 *  `options.pauseWhenHidden` was set, so the query should be marked stale
+	 *  once it's visible.
+	 */
+	isStalePaused: boolean = false;
+	/** The timeout for the next `options.refetchInterval` poll. */
+	pollTimeout: QueryTimeout | undefined;
+	/** The tags the query currently provides. */
+	tags: QueryTagObject[] = [];
+	/** A change from another tab is being applied, so changes shouldn't be
+	 *  broadcast back.
+	 */
+	private isApplyingSync: boolean = false;
+	/** The cache is being evicted, which only frees this tab's memory, so
+	 *  the other tabs and storage should keep the data.
+	 */
+	private isEvicting: boolean = false;
+	/** The cache is being cleared because a fetch failed. Storage and the
+	 *  other tabs keep the last good data, the failure may well be transient
+	 *  (e.g., offline).
+	 */
+	private isClearingAfterError: boolean = false;
+	/** Another tab said it's refetching the query, and will broadcast the
+	 *  result.
+	 */
+	private isAwaitingSync: boolean = false;
 
 	/** The query data itself. */
 	query: Writable<QueryMapItem<Q, Key>>;
@@ -693,10 +1606,9 @@ export class Query<Q extends QueriesType, Key extends keyof Q> {
 	constructor(
 		queryMap: WQueryMap<Q>,
 		key: QueryKeys<Q>[Key],
-		fetch: () => Promise<FetchResult<Q, Key>>,
+		fetch: QueryFetch<Q, Key>,
 		options: RecursivePartial<UseQueryOptions<Q, Key>> = {}
 	) {
-		trace(key, "Creating query");
 		this.queryMap = queryMap;
 		this.key = key;
 		this.fetch = fetch;
@@ -705,6 +1617,24 @@ export class Query<Q extends QueriesType, Key extends keyof Q> {
 			...recursiveRemoveUndefined(options)
 		} as UseQueryOptions<Q, Key>;
 
+		// Check for cycles before anything starts, so the query can be
+		// rejected without leaving anything behind.
+		this.dependencyEdges = this.options.dependencies.flatMap((dependency) =>
+			dependency instanceof QDepQuery ? [serialiseKey(dependency.key)] : []
+		);
+		const cycle = findDependencyCycle(queryMap, key, this.dependencyEdges);
+		if (cycle !== undefined) {
+			const message = `Query dependency cycle: ${cycle
+				.map((cycleKey) => cycleKey.join("::"))
+				.join(" -> ")}`;
+			if (queryMap.options.dependencyCycles === "throw") {
+				throw new Error(message);
+			}
+			console.warn(message);
+			this.emit("dependencyCycle", { cycle });
+		}
+		queryMap.dependencyGraph.set(serialiseKey(key), this.dependencyEdges);
+
 		this.dataInUse = writable(false);
 		this.query = writable({
 			current: writable(),
@@ -719,7 +1649,8 @@ export class Query<Q extends QueriesType, Key extends keyof Q> {
 				duration: false,
 				timeout: undefined,
 				hasCached: false,
-				data: ["none"]
+				data: ["none"],
+				updatedAt: false
 			},
 			class: this
 		});
@@ -775,15 +1706,44 @@ export class Query<Q extends QueriesType, Key extends keyof Q> {
 			},
 			{ status: "loading" }
 		);
+		const currentWithPlaceholder_: Readable<QueryResult<Q, Key>> = derived(
+			currentWithCaching_,
+			(current) => {
+				const name = this.key[0];
+				if (current.status === "ok") {
+					this.queryMap.previousData.set(name, {
+						query: this,
+						data: current.data
+					});
+					return current;
+				}
+				if (current.status !== "loading") return current;
 
-		let subscribers = 0;
-		const currentWithCaching: Readable<QueryResult<Q, Key>> = {
-			subscribe: (run, invalidate) => {
-				subscribers++;
-				this.trace("New subscriber");
-				if (subscribers === 1) {
+				const placeholder = this.options.placeholderData(
+					this.queryMap.previousData.get(name)?.data as Q[Key]["ok"] | undefined
+				);
+				if (placeholder === undefined) return current;
+				this.trace("current with caching -> placeholder", placeholder);
+				return {
+					status: "ok",
+					data: placeholder,
+					isPlaceholder: true
+				} satisfies QueryResult<Q, Key>;
+			}
+		);
+
+		const currentWithCaching: Readable<QueryResult<Q, Key>> = {
+			subscribe: (run, invalidate) => {
+				this.subscribers++;
+				this.trace("New subscriber");
+				if (this.subscribers === 1) {
 					this.trace("First subscriber");
 					this.dataInUse.set(true);
+					recordCacheUse(this.queryMap, this);
+					this.scheduleGc();
+					if (this.pollTimeout === undefined && !this.isFetching) {
+						this.schedulePoll();
+					}
 
 					if (this.options.stale.onSubscribeIfUnused) {
 						this.trace("First subscriber, stale on subscribe");
@@ -794,14 +1754,16 @@ export class Query<Q extends QueriesType, Key extends keyof Q> {
 					}
 				}
 
-				const unsubscribe = currentWithCaching_.subscribe(run, invalidate);
+				const unsubscribe = currentWithPlaceholder_.subscribe(run, invalidate);
 				return () => {
 					unsubscribe();
-					subscribers--;
+					this.subscribers--;
 					this.trace("Removed subscriber");
-					if (subscribers === 0) {
+					if (this.subscribers === 0) {
 						this.trace("Last subscriber");
 						this.dataInUse.set(false);
+						this.scheduleGc();
+						updateCacheEntry(this.queryMap, this);
 					}
 				};
 			}
@@ -811,13 +1773,29 @@ export class Query<Q extends QueriesType, Key extends keyof Q> {
 			q.current = currentWithCaching;
 			return q;
 		});
+		this.emit("created", {
+			options: this.options as unknown as UseQueryOptions<Q, keyof Q>
+		});
 
+		const dehydrated = queryMap.dehydrated.get(serialiseKey(key));
+		if (dehydrated !== undefined) {
+			queryMap.dehydrated.delete(serialiseKey(key));
+			this.hydrate(dehydrated);
+		} else if (!this.seedInitialData()) {
+			this.rehydrate();
+		}
+		this.updateTags();
+		updateCacheEntry(this.queryMap, this);
 		this.subscribeToDependencies();
+		this.scheduleGc();
 		void this.fetcher();
 	}
 
 	async fetcher() {
-		if (!browser) {
+		if (
+			(!inBrowser(this.queryMap) && this.queryMap.options.server !== true) ||
+			this.isDestroyed
+		) {
 			return;
 		}
 
@@ -827,12 +1805,18 @@ export class Query<Q extends QueriesType, Key extends keyof Q> {
 		}
 
 		if (this.isFetching) {
-			this.trace("Fetcher called while already fetching");
-			return;
+			// Something marked the query stale mid-flight, so whatever the
+			// in-flight request returns is already outdated.
+			this.trace("Fetcher called while already fetching, restarting");
+			this.abortController?.abort();
 		}
+		const fetchId = ++this.fetchId;
+		const controller = new AbortController();
+		this.abortController = controller;
+		const superseded = () => this.isDestroyed || fetchId !== this.fetchId;
 
 		this.query.update((q) => {
-			clearTimeout(q.stale.timeout);
+			this.clock.clearTimeout(q.stale.timeout);
 			q.stale = {
 				duration: false,
 				isStale: false,
@@ -840,7 +1824,7 @@ export class Query<Q extends QueriesType, Key extends keyof Q> {
 				timeout: undefined
 			};
 
-			clearTimeout(q.cache.timeout);
+			this.clock.clearTimeout(q.cache.timeout);
 			q.cache = {
 				...q.cache,
 				duration: false,
@@ -852,6 +1836,7 @@ export class Query<Q extends QueriesType, Key extends keyof Q> {
 		});
 
 		this.trace("Fetching");
+		this.emit("fetchStart", { restarted: this.isFetching });
 		this.isFetching = true;
 		this.current.set({ status: "loading" });
 		let count = 0;
@@ -859,19 +1844,47 @@ export class Query<Q extends QueriesType, Key extends keyof Q> {
 		while (true) {
 			if (this.stoppedBy.size > 0) {
 				this.trace("Stopped by", this.stoppedBy);
+				this.emit("stopped", { by: [...this.stoppedBy] });
 				this.current.set({ status: "idle" });
 				this.isFetching = false;
+				this.abortController = undefined;
+				this.resolveInFlight({ status: "idle" });
 				return;
 			}
 
-			const result = await this.fetch();
+			let result: FetchResult<Q, Key>;
+			try {
+				result = await this.fetch(controller.signal, this.dependencyValues());
+			} catch (e) {
+				// Aborted requests usually throw, which is expected.
+				if (controller.signal.aborted) {
+					this.trace("Fetch aborted");
+					return;
+				}
+				if (superseded()) return;
+				// Otherwise the query would be fetching forever. Whatever was
+				// thrown is the error, so `fetchQuery` rethrows it as is.
+				console.warn("Query fetch threw", e);
+				this.current.set({
+					status: "err",
+					isRefetching: false,
+					err: e as Q[Key]["err"]
+				});
+				break;
+			}
 			this.trace("Fetch result:", result);
+			if (superseded()) {
+				this.trace("Fetch superseded, discarding result");
+				return;
+			}
+			this.emit("fetchResult", { result });
 
 			if (result[0] === "retry") {
 				count++;
 
 				const { err, returnError } = result[1];
 				const waitDuration = this.options.onRetry(count, err);
+				this.emit("retry", { count, err, returnError, waitDuration });
 
 				if (waitDuration === false) {
 					this.trace("Retry wait duration false, returning error");
@@ -890,14 +1903,18 @@ export class Query<Q extends QueriesType, Key extends keyof Q> {
 					// data. We've just gone back in time!
 					// Clear the cache so this doesn't happen.
 					this.trace("Retry returning error. Clear cache");
-					this.clearCache(false, false);
+					this.clearCacheAfterError();
 					this.current.set({ status: "err", isRefetching: true, err });
 				} else {
 					this.trace("Retry requested a loading");
 					this.current.set({ status: "loading" });
 				}
 				this.trace("Retry waiting for", waitDuration, "ms");
-				await new Promise((res) => setTimeout(res, waitDuration));
+				await new Promise<void>((res) =>
+					this.clock.setTimeout(res, waitDuration)
+				);
+				if (this.options.pauseWhenHidden) await whenVisible();
+				if (superseded()) return;
 				this.trace("Retrying...");
 			} else if (result[0] === "err") {
 				this.current.set({
@@ -927,34 +1944,174 @@ export class Query<Q extends QueriesType, Key extends keyof Q> {
 		} else {
 			// Clear the cache if we have an error
 			this.trace("fetch error. clear cache");
-			this.clearCache(false, false);
+			this.clearCacheAfterError();
+			this.broadcast({ type: "fetchFailed", key: serialiseKey(this.key) });
 		}
+		this.settled = current;
 		this.isFetching = false;
+		this.abortController = undefined;
+		this.resolveInFlight(current);
 		this.trace("Fetcher finished");
+		this.schedulePoll();
 	}
 
-	/** Mark the query stale and clear the cache. Will refetch according to the
-	 *  `stale` rules in the query options, unless `forceRefetch` is true in
-	 *  which case it will refetch immediately.
+	/** Starts the timer for the next `options.refetchInterval` poll. */
+	private schedulePoll() {
+		this.clock.clearTimeout(this.pollTimeout);
+		this.pollTimeout = undefined;
+		if (this.isDestroyed) return;
+
+		const { refetchInterval, refetchIntervalIfUnused } = this.options;
+		if (!get(this.dataInUse) && !refetchIntervalIfUnused) return;
+		const interval =
+			typeof refetchInterval === "function"
+				? refetchInterval(get(this.current))
+				: refetchInterval;
+		if (interval === false) return;
+
+		this.trace("Polling in", interval, "ms");
+		this.pollTimeout = this.startTimer(() => this.poll(), interval);
+	}
+
+	/** Refetches the query for `options.refetchInterval`. */
+	private poll() {
+		this.pollTimeout = undefined;
+		// The fetch reschedules the poll when it finishes.
+		if (this.isFetching) return;
+		// The next subscriber reschedules the poll.
+		if (!get(this.dataInUse) && !this.options.refetchIntervalIfUnused) return;
+		if (this.options.pauseWhenHidden && !get(documentVisible)) {
+			this.trace("Poll while hidden, pausing");
+			this.isStalePaused = true;
+			return;
+		}
+
+		this.trace("Polling");
+		this.markStale(true);
+	}
+
+	/** Aborts the in-flight fetch and discards its result. `current` goes back
+	 *  to the result of the last completed fetch.
+	 *
+	 *  See `[cancel]` for more info.
+	 */
+	cancel() {
+		if (!this.isFetching) return;
+		this.trace("Cancelling fetch");
+		this.fetchId++;
+		this.abortController?.abort();
+		this.abortController = undefined;
+		this.isFetching = false;
+
+		this.current.set(this.settled);
+		// Leave the query stale so it's fetched again next time it's needed.
+		// Errors clear the cache though, so a stale error would show as a
+		// loading with nothing loading. Show the error instead.
+		this.query.update((cancelQuery) => {
+			cancelQuery.stale.isStale = this.settled.status !== "err";
+			return cancelQuery;
+		});
+		this.resolveInFlight(this.settled);
+	}
+
+	/** Resolves with the result of the in-flight fetch once it settles, or
+	 *  immediately with the last settled result if the query isn't fetching.
+	 *  A query stopped by a dependency waits for its next fetch instead, and
+	 *  resolves with `idle` if that's stopped too.
+	 *
+	 *  Every caller waiting on the same fetch shares one promise, which also
+	 *  resolves if the fetch is cancelled or the query destroyed.
+	 */
+	whenSettled(): Promise<QuerySettledResult<Q, Key>> {
+		if (!this.isFetching && this.stoppedBy.size === 0) {
+			return Promise.resolve(this.settled);
+		}
+
+		if (this.inFlight === undefined) {
+			let resolve!: (result: QuerySettledResult<Q, Key>) => void;
+			const promise = new Promise<QuerySettledResult<Q, Key>>((res) => {
+				resolve = res;
+			});
+			this.inFlight = { promise, resolve };
+		}
+		return this.inFlight.promise;
+	}
+	private resolveInFlight(result: QuerySettledResult<Q, Key>) {
+		this.inFlight?.resolve(result);
+		this.inFlight = undefined;
+	}
+
+	/** Clear the cache. If `markStale` is true, also mark the query stale, which
+	 *  will refetch according to the `stale` rules in the query options, unless
+	 *  `forceRefetch` is true in which case it will refetch immediately.
 	 *
 	 *  See `[invalidate]` or `[invalidateAndRefetch]` for more info.
 	 */
 	clearCache(forceRefetch: boolean = false, markStale: boolean = false) {
 		this.trace("Clearing cache, forceRefetch:", forceRefetch);
 		this.query.update((clearCacheQuery) => {
-			clearTimeout(clearCacheQuery.cache.timeout);
+			this.clock.clearTimeout(clearCacheQuery.cache.timeout);
 			clearCacheQuery.cache.timeout = undefined;
 			clearCacheQuery.cache.hasCached = false;
 			clearCacheQuery.cache.duration = false;
 			clearCacheQuery.cache.expiresAt = false;
 			clearCacheQuery.cache.data = ["none"];
+			clearCacheQuery.cache.updatedAt = false;
 
 			return clearCacheQuery;
 		});
+		this.updateTags();
+		updateCacheEntry(this.queryMap, this);
+		this.unpersist();
+		this.broadcast({ type: "clearCache", key: serialiseKey(this.key) });
+		this.emit("cacheCleared", { markStale, forceRefetch });
 
 		if (markStale) this.markStale(forceRefetch);
 	}
 
+	/** Clears the cache after a failed fetch, keeping the persisted copy and
+	 *  the other tabs' caches.
+	 */
+	private clearCacheAfterError() {
+		this.isClearingAfterError = true;
+		try {
+			this.clearCache(false, false);
+		} finally {
+			this.isClearingAfterError = false;
+		}
+	}
+
+	/** Lets go of this query's data in `queryMap.previousData`, so placeholders
+	 *  don't keep it alive after the query is evicted or destroyed.
+	 */
+	private forgetPreviousData() {
+		const name = this.key[0];
+		if (this.queryMap.previousData.get(name)?.query === this) {
+			this.queryMap.previousData.delete(name);
+		}
+	}
+
+	/** Clears the cache of an unused query to free memory, see
+	 *  `QueryMapOptions.cacheLimits`. Other tabs and storage keep their copy.
+	 *  The query is marked stale without refetching, so it's refetched when
+	 *  it's next used.
+	 */
+	evict() {
+		this.trace("Evicting cache");
+		this.isEvicting = true;
+		try {
+			this.clearCache(false, false);
+		} finally {
+			this.isEvicting = false;
+		}
+		this.setStale();
+		this.forgetPreviousData();
+		this.emit("evicted", {});
+		// The last result holds the same data, let it go too.
+		this.settled = { status: "idle" };
+		this.current.set({ status: "loading" });
+	}
+
 	/** Update the `data` and `cache` of a query with your own data.
 	 *
 	 *  See `[updateData]` for more info.
@@ -962,13 +2119,15 @@ export class Query<Q extends QueriesType, Key extends keyof Q> {
 	setData(data: Q[Key]["ok"]) {
 		this.trace("setData called with", data);
 		this.current.set({ status: "ok", data });
+		this.settled = { status: "ok", data };
 
 		this.resetStaleTimer({ status: "ok", data });
 		this.query.update((updateCacheQuery) => {
 			updateCacheQuery.cache.data = ["some", data];
 			updateCacheQuery.cache.hasCached = true;
+			updateCacheQuery.cache.updatedAt = new Date(this.clock.now());
 
-			clearTimeout(updateCacheQuery.cache.timeout);
+			this.clock.clearTimeout(updateCacheQuery.cache.timeout);
 
 			const duration = this.options.cache.duration(data);
 			this.trace("setData duration of", duration);
@@ -978,19 +2137,258 @@ export class Query<Q extends QueriesType, Key extends keyof Q> {
 				// Never clear so never have to unset the timeout!
 				updateCacheQuery.cache.timeout = undefined;
 			} else {
-				updateCacheQuery.cache.expiresAt = new Date(Date.now() + duration);
-				const timeout = setTimeout(() => this.clearCache(), duration);
+				updateCacheQuery.cache.expiresAt = new Date(
+					this.clock.now() + duration
+				);
+				const timeout = this.startTimer(() => this.clearCache(), duration);
 				updateCacheQuery.cache.timeout = timeout;
 			}
 
 			return updateCacheQuery;
 		});
+		this.updateTags();
+		updateCacheEntry(this.queryMap, this);
+		this.persist();
+		this.broadcast({
+			type: "setData",
+			key: serialiseKey(this.key),
+			data,
+			isStale: get(this.query).stale.isStale
+		});
+	}
+
+	/** The persist options, if this query should be persisted. */
+	private get persistOptions(): QueryPersistOptions<Q> | undefined {
+		const persist = this.queryMap.options.persist;
+		if (persist === undefined) return undefined;
+		if (persist.shouldPersist?.(this.key as QueryKeyArr<Q>) === false) {
+			return undefined;
+		}
+		return persist;
+	}
+
+	/** Writes the cached data to storage. */
+	private persist() {
+		const persist = this.persistOptions;
+		if (persist === undefined) return;
+
+		const { cache } = get(this.query);
+		if (!cache.hasCached || cache.data[0] === "none") return;
+
+		this.trace("Persisting cache");
+		void persist.storage.set(storageKey(persist, this.key as QueryKeyArr<Q>), {
+			version: persist.version,
+			data: cache.data[1],
+			expiresAt: cache.expiresAt === false ? false : cache.expiresAt.getTime(),
+			updatedAt: this.clock.now()
+		});
+	}
+
+	/** Removes the cached data from storage. */
+	private unpersist() {
+		const persist = this.persistOptions;
+		if (persist === undefined || this.isEvicting || this.isClearingAfterError)
+			return;
+
+		void persist.storage.remove(
+			storageKey(persist, this.key as QueryKeyArr<Q>)
+		);
+	}
+
+	/** Seeds the cache from storage if there's a usable entry.
+	 *
+	 *  If the storage reads asynchronously and the query has cached data by the
+	 *  time it resolves, the stored entry is ignored as it's older.
+	 */
+	private rehydrate() {
+		const persist = this.persistOptions;
+		if (persist === undefined) return;
+
+		const apply = (entry: PersistedQuery | undefined) => {
+			if (get(this.query).cache.hasCached) return;
+			if (!isUsable(persist, entry, this.clock.now())) {
+				this.trace("Discarding persisted cache", entry);
+				if (entry !== undefined) this.unpersist();
+				return;
+			}
+
+			this.trace("Rehydrating cache", entry);
+			this.seedCache(
+				entry.data as Q[Key]["ok"],
+				entry.updatedAt,
+				entry.expiresAt
+			);
+		};
+
+		const entry = persist.storage.get(
+			storageKey(persist, this.key as QueryKeyArr<Q>)
+		);
+		if (entry instanceof Promise) {
+			void entry.then(apply);
+		} else {
+			apply(entry);
+		}
+	}
+
+	/** Seeds the cache with `options.initialData`, if it returns any. Returns
+	 *  whether it did. It isn't persisted, the code provides it again next
+	 *  time.
+	 */
+	private seedInitialData(): boolean {
+		const data = this.options.initialData();
+		if (data === undefined) return false;
+
+		const updatedAt = this.options.initialDataUpdatedAt() ?? this.clock.now();
+		const staleIn = this.options.stale.duration({ status: "ok", data });
+		const expiresIn = this.options.cache.duration(data);
+		this.trace("Seeding initial data", data, updatedAt);
+		this.seed({
+			key: this.key as (string | number)[],
+			data,
+			updatedAt,
+			turnsStaleAt: staleIn === false ? false : updatedAt + staleIn,
+			expiresAt: expiresIn === false ? false : updatedAt + expiresIn
+		});
+		return true;
+	}
+
+	/** Sets the cached data without touching `current` or the stale state.
+	 *  Used when the data comes from somewhere other than a fetch, so times are
+	 *  absolute rather than relative to now.
+	 */
+	private seedCache(
+		data: Q[Key]["ok"],
+		updatedAt: number,
+		expiresAt: number | false
+	) {
+		this.query.update((seedQuery) => {
+			seedQuery.cache.data = ["some", data];
+			seedQuery.cache.hasCached = true;
+			seedQuery.cache.updatedAt = new Date(updatedAt);
+
+			this.clock.clearTimeout(seedQuery.cache.timeout);
+			if (expiresAt === false) {
+				seedQuery.cache.expiresAt = false;
+				seedQuery.cache.duration = false;
+				seedQuery.cache.timeout = undefined;
+			} else {
+				const duration = expiresAt - this.clock.now();
+				seedQuery.cache.expiresAt = new Date(expiresAt);
+				seedQuery.cache.duration = duration;
+				seedQuery.cache.timeout = this.startTimer(
+					() => this.clearCache(),
+					duration
+				);
+			}
+
+			return seedQuery;
+		});
+		this.updateTags();
+		updateCacheEntry(this.queryMap, this);
+	}
+
+	/** Sets the query's data from a server-side query map, keeping the stale
+	 *  and cache times the server calculated.
+	 *
+	 *  See `[hydrate]` for more info.
+	 */
+	hydrate(entry: DehydratedQuery) {
+		this.trace("Hydrating with", entry);
+		this.seed(entry);
+		this.persist();
+	}
+
+	/** The cached data with its stale and cache times, or `undefined` if
+	 *  nothing is cached. See `[dehydrate]` for more info.
+	 */
+	dehydrate(): DehydratedQuery | undefined {
+		const { cache, stale } = get(this.query);
+		if (!cache.hasCached || cache.data[0] === "none") return undefined;
+		if (cache.updatedAt === false) return undefined;
+
+		return {
+			key: this.key as (string | number)[],
+			data: cache.data[1],
+			updatedAt: cache.updatedAt.getTime(),
+			turnsStaleAt: stale.isStale
+				? cache.updatedAt.getTime()
+				: stale.turnsStaleAt === false
+				? false
+				: stale.turnsStaleAt.getTime(),
+			expiresAt: cache.expiresAt === false ? false : cache.expiresAt.getTime()
+		};
+	}
+
+	/** Puts back a snapshot from `dehydrate`, or clears the cache if there was
+	 *  none. Used to roll back optimistic updates, so the snapshot keeps its
+	 *  old times and storage and other tabs drop the optimistic data rather
+	 *  than getting the snapshot as fresh data.
+	 */
+	restore(snapshot: DehydratedQuery | undefined) {
+		if (snapshot === undefined) {
+			this.clearCache(false, true);
+			return;
+		}
+
+		this.trace("Restoring", snapshot);
+		this.unpersist();
+		this.broadcast({ type: "clearCache", key: serialiseKey(this.key) });
+		this.settled = { status: "ok", data: snapshot.data as Q[Key]["ok"] };
+		this.seed(snapshot);
+	}
+
+	/** Sets the cached data and `current` from `entry`, keeping its stale and
+	 *  cache times. Doesn't persist it.
+	 */
+	private seed(entry: DehydratedQuery) {
+		const data = entry.data as Q[Key]["ok"];
+		this.seedCache(data, entry.updatedAt, entry.expiresAt);
+		this.current.set({ status: "ok", data });
+
+		const staleIn =
+			entry.turnsStaleAt === false
+				? false
+				: entry.turnsStaleAt - this.clock.now();
+		if (staleIn !== false && staleIn <= 0) {
+			this.markStale();
+			return;
+		}
+
+		this.query.update((hydrateQuery) => {
+			this.clock.clearTimeout(hydrateQuery.stale.timeout);
+			hydrateQuery.stale.isStale = false;
+			hydrateQuery.stale.duration = staleIn;
+			if (staleIn === false) {
+				hydrateQuery.stale.turnsStaleAt = false;
+				hydrateQuery.stale.timeout = undefined;
+			} else {
+				hydrateQuery.stale.turnsStaleAt = new Date(this.clock.now() + staleIn);
+				hydrateQuery.stale.timeout = this.startTimer(
+					() => this.staleTimerEnded(),
+					staleIn
+				);
+			}
+			return hydrateQuery;
+		});
+	}
+
+	/** Starts a stale or cache timer. Server query maps only live for a single
+	 *  request, so they don't start any.
+	 */
+	private startTimer(run: () => void, duration: number) {
+		if (this.queryMap.options.server === true) return undefined;
+		return this.clock.setTimeout(run, duration);
+	}
+
+	/** The clock the query's timers run on. */
+	private get clock(): QueryClock {
+		return this.queryMap.clock;
 	}
 
 	resetStaleTimer(current: QueryResultErr<Q, Key> | QueryResultOk<Q, Key>) {
 		this.trace("Resetting stale timer with data", current);
 		this.query.update((updateStaleQuery) => {
-			clearTimeout(updateStaleQuery.stale.timeout);
+			this.clock.clearTimeout(updateStaleQuery.stale.timeout);
 
 			const duration = this.options.stale.duration(current);
 			updateStaleQuery.stale.duration = duration;
@@ -999,8 +2397,10 @@ export class Query<Q extends QueriesType, Key extends keyof Q> {
 				updateStaleQuery.stale.turnsStaleAt = false;
 				updateStaleQuery.stale.timeout = undefined;
 			} else {
-				updateStaleQuery.stale.turnsStaleAt = new Date(Date.now() + duration);
-				const timeout = setTimeout(() => this.markStale(), duration);
+				updateStaleQuery.stale.turnsStaleAt = new Date(
+					this.clock.now() + duration
+				);
+				const timeout = this.startTimer(() => this.staleTimerEnded(), duration);
 				updateStaleQuery.stale.timeout = timeout;
 			}
 
@@ -1008,6 +2408,40 @@ export class Query<Q extends QueriesType, Key extends keyof Q> {
 		});
 	}
 
+	/** Called when the stale timer runs out. */
+	private staleTimerEnded() {
+		if (this.options.pauseWhenHidden && !get(documentVisible)) {
+			this.trace("Stale timer ended while hidden, pausing");
+			this.isStalePaused = true;
+			return;
+		}
+		this.markStale();
+	}
+
+	/** Called by the query map when the document becomes visible. */
+	onVisible() {
+		if (!this.isStalePaused) return;
+		this.trace("Visible again, resuming stale timer");
+		this.isStalePaused = false;
+		this.markStale();
+	}
+
+	/** Called by the query map when the window regains focus. */
+	onWindowFocus() {
+		if (!this.options.refetchOnWindowFocus) return;
+		if (this.isFetching || !get(this.dataInUse)) return;
+		this.trace("Window focused, refetching");
+		this.markStale();
+	}
+
+	/** Called by the query map when the network reconnects. */
+	onReconnect() {
+		if (!this.options.refetchOnReconnect) return;
+		if (this.isFetching || !get(this.dataInUse)) return;
+		this.trace("Network reconnected, refetching");
+		this.markStale();
+	}
+
 	/** Mark the query stale but keep the cache. Will refetch according to the
 	 *  `stale` rules in the query options, unless `forceRefetch` is true in
 	 *  which case it will refetch immediately.
@@ -1016,15 +2450,7 @@ export class Query<Q extends QueriesType, Key extends keyof Q> {
 	 */
 	markStale(forceRefetch: boolean = false) {
 		this.trace("Marking stale, forceRefetch", forceRefetch);
-		this.query.update((markStaleQuery) => {
-			clearTimeout(markStaleQuery.stale.timeout);
-			markStaleQuery.stale.timeout = undefined;
-			markStaleQuery.stale.isStale = true;
-			markStaleQuery.stale.duration = false;
-			markStaleQuery.stale.turnsStaleAt = false;
-
-			return markStaleQuery;
-		});
+		this.setStale();
 
 		const dataInUse = get(this.dataInUse);
 		const refetchIfUnused = this.options.stale.refetchIfUnused;
@@ -1033,11 +2459,100 @@ export class Query<Q extends QueriesType, Key extends keyof Q> {
 			dataInUse,
 			refetchIfUnused
 		});
-		if (forceRefetch || dataInUse || refetchIfUnused) {
+		const willRefetch = forceRefetch || dataInUse || refetchIfUnused;
+		this.emit("staleMarked", { forceRefetch, willRefetch });
+		this.broadcast({
+			type: "markStale",
+			key: serialiseKey(this.key),
+			willRefetch
+		});
+		if (willRefetch) {
 			void this.fetcher();
 		}
 	}
 
+	/** The values of `options.dependencies` to pass to `fetch`. See
+	 *  `[DependencyValues]`.
+	 */
+	private dependencyValues(): unknown[] {
+		return this.options.dependencies.map((dependency) => {
+			if (dependency instanceof QDepSubscription) {
+				return get(dependency.subscription) as unknown;
+			}
+
+			const depQuery = getQuery(this.queryMap, dependency.key);
+			if (depQuery === undefined) return undefined;
+			const { cache, class: depClass } = get(depQuery);
+			if (cache.data[0] === "some") return cache.data[1];
+			return depClass.settled.status === "ok"
+				? depClass.settled.data
+				: undefined;
+		});
+	}
+
+	/** Marks the query stale without refetching it. */
+	private setStale() {
+		this.isStalePaused = false;
+		this.query.update((markStaleQuery) => {
+			this.clock.clearTimeout(markStaleQuery.stale.timeout);
+			markStaleQuery.stale.timeout = undefined;
+			markStaleQuery.stale.isStale = true;
+			markStaleQuery.stale.duration = false;
+			markStaleQuery.stale.turnsStaleAt = false;
+
+			return markStaleQuery;
+		});
+	}
+
+	/** Applies a change broadcast by the same query in another tab. See
+	 *  `QueryMapOptions.sync`.
+	 */
+	applySync(message: QuerySyncMessage) {
+		this.trace("Applying change from another tab", message);
+		this.isApplyingSync = true;
+		try {
+			const isAwaitingSync = this.isAwaitingSync;
+			this.isAwaitingSync = message.type === "markStale" && message.willRefetch;
+			if (message.type === "setData") {
+				// The other tab just fetched the data, so there's no need to
+				// keep fetching it here too.
+				if (!message.isStale) this.cancel();
+				this.setData(message.data as Q[Key]["ok"]);
+				if (!message.isStale) {
+					this.isStalePaused = false;
+					this.query.update((syncQuery) => {
+						syncQuery.stale.isStale = false;
+						return syncQuery;
+					});
+				}
+			} else if (message.type === "clearCache") {
+				this.clearCache();
+			} else if (message.type === "fetchFailed") {
+				// The other tab's refetch failed, so fetch here instead.
+				if (isAwaitingSync) this.markStale();
+			} else if (message.willRefetch) {
+				// The other tab broadcasts the result when it has it.
+				this.setStale();
+			} else {
+				this.markStale();
+			}
+		} finally {
+			this.isApplyingSync = false;
+		}
+	}
+
+	private broadcast(message: QuerySyncMessage) {
+		if (
+			this.isApplyingSync ||
+			this.isEvicting ||
+			this.isClearingAfterError ||
+			this.isDestroyed
+		) {
+			return;
+		}
+		this.queryMap.sync?.post(message);
+	}
+
 	/** Subscribe to the dependencies listed in `options` and store their
 	 *  unsubscribers in `Query.dependencyUnsubscibers`.
 	 *
@@ -1079,6 +2594,7 @@ export class Query<Q extends QueriesType, Key extends keyof Q> {
 					"returned",
 					result
 				);
+				this.emit("dependencyChanged", { dependency: i, result });
 				if (result === "nothing") {
 					this.stoppedBy.delete(i);
 				} else if (result === "refetch") {
@@ -1110,63 +2626,200 @@ export class Query<Q extends QueriesType, Key extends keyof Q> {
 		// dependency query when the unsubscribe runs.
 		void new Promise<Writable<QueryMapItem<Q, K>>>((res) => {
 			this.stoppedBy.add(i);
-			unsub.set(
-				this.queryMap.subscribe(() => {
-					const depQuery = getQuery(this.queryMap, dependency.key);
-					if (depQuery === undefined) return;
-					res(depQuery);
-				})
-			);
+			const timeout = this.queryMap.options.unresolvedDependencyTimeout;
+			const unresolvedTimeout =
+				timeout === undefined || timeout === false
+					? undefined
+					: this.startTimer(() => {
+							console.warn(
+								`Query ${this.key.join("::")} is still waiting for dependency`,
+								dependency.key.join("::"),
+								`after ${timeout}ms`
+							);
+							this.emit("dependencyUnresolved", {
+								dependency: i,
+								key: dependency.key as (string | number)[]
+							});
+					  }, timeout);
+			const mapUnsub = this.queryMap.subscribe(() => {
+				const depQuery = getQuery(this.queryMap, dependency.key);
+				if (depQuery === undefined) return;
+				res(depQuery);
+			});
+			unsub.set(() => {
+				mapUnsub();
+				this.clock.clearTimeout(unresolvedTimeout);
+			});
 		}).then((depQuery) => {
-			unsub.set(
-				depQuery.subscribe((query) => {
-					const current = get(query.current);
-
-					if (query.stale.isStale && !lastWasStale) {
-						const result = dependency.onStale?.();
-						if (result === "becomeStale") {
-							this.markStale();
-						} else if (result === "staleAndClear") {
-							this.clearCache();
-						}
-					}
+			get(unsub)();
+			if (this.isDestroyed) return;
 
-					lastWasStale = query.stale.isStale;
+			const depClass = get(depQuery).class;
+			depClass.dependents.add(this);
+			const depUnsub = depQuery.subscribe((query) => {
+				const current = get(query.current);
 
-					if (deepEqual(last, current)) {
-						return;
+				if (query.stale.isStale && !lastWasStale) {
+					const result = dependency.onStale?.();
+					if (result === "becomeStale") {
+						this.markStale();
+					} else if (result === "staleAndClear") {
+						this.clearCache(false, true);
 					}
+				}
 
-					// @ts-ignore
-					const result = dependency.onChange(last, current);
-					if (result === "nothing") {
-						this.stoppedBy.delete(i);
-					} else if (result === "refetch") {
-						this.stoppedBy.delete(i);
-						this.refetch();
-					} else if (result === "clearCacheAndRefetch") {
-						this.stoppedBy.delete(i);
-						this.invalidateAndRefetch();
-					} else if (result === "stop") {
-						this.stoppedBy.add(i);
-						this.invalidateAndRefetch();
-					}
+				lastWasStale = query.stale.isStale;
 
-					last = current;
-				})
-			);
+				if (deepEqual(last, current)) {
+					return;
+				}
+
+				// @ts-ignore
+				const result = dependency.onChange(last, current);
+				this.emit("dependencyChanged", { dependency: i, result });
+				if (result === "nothing") {
+					this.stoppedBy.delete(i);
+				} else if (result === "refetch") {
+					this.stoppedBy.delete(i);
+					this.refetch();
+				} else if (result === "clearCacheAndRefetch") {
+					this.stoppedBy.delete(i);
+					this.invalidateAndRefetch();
+				} else if (result === "stop") {
+					this.stoppedBy.add(i);
+					this.invalidateAndRefetch();
+				}
+
+				last = current;
+			});
+			unsub.set(() => {
+				depUnsub();
+				depClass.dependents.delete(this);
+				depClass.scheduleGc();
+			});
 		});
 
 		return unsub;
 	}
 
+	/** Updates `tags` from `options.providesTags` and the cached data, and
+	 *  keeps the query map's `tagIndex` in sync. A destroyed query provides
+	 *  no tags.
+	 */
+	private updateTags() {
+		const providesTags = this.options.providesTags;
+		const data = get(this.query).cache.data;
+		let tags: QueryTag[] = [];
+		if (this.isDestroyed) {
+			// Leave `tags` empty so the query is removed from the index.
+		} else if (typeof providesTags !== "function") {
+			tags = providesTags;
+		} else if (data[0] === "some") {
+			tags = providesTags(data[1]);
+		}
+
+		const tagIndex = this.queryMap.tagIndex;
+		for (const tag of this.tags) {
+			const providers = tagIndex.get(tag.type);
+			providers?.delete(this);
+			if (providers?.size === 0) tagIndex.delete(tag.type);
+		}
+		this.tags = tags.map(normaliseTag);
+		for (const tag of this.tags) {
+			const providers = tagIndex.get(tag.type) ?? new Set();
+			providers.add(this);
+			tagIndex.set(tag.type, providers);
+		}
+	}
+
+	/** Starts the garbage collection timer if nothing is using the query, or
+	 *  stops it if something is.
+	 */
+	scheduleGc() {
+		this.clock.clearTimeout(this.gcTimeout);
+		this.gcTimeout = undefined;
+
+		const gcTime = this.options.gcTime;
+		if (gcTime === false || this.isDestroyed) return;
+		if (this.subscribers > 0 || this.dependents.size > 0) return;
+
+		this.trace("Garbage collecting in", gcTime, "ms");
+		this.gcTimeout = this.clock.setTimeout(() => this.destroy(), gcTime);
+	}
+
+	/** Destroys the query. Clears all timeouts, unsubscribes from its
+	 *  dependencies and removes it from the query map. Results of any fetch
+	 *  still in flight are discarded.
+	 *
+	 *  Called automatically after `options.gcTime`. The query should not be
+	 *  used after this; call `useQuery` again to create a new one.
+	 */
+	destroy() {
+		if (this.isDestroyed) return;
+		this.trace("Destroying");
+		this.emit("destroyed", {});
+		this.isDestroyed = true;
+		this.isFetching = false;
+		this.abortController?.abort();
+		this.abortController = undefined;
+		this.resolveInFlight(this.settled);
+
+		this.clock.clearTimeout(this.gcTimeout);
+		this.gcTimeout = undefined;
+		this.clock.clearTimeout(this.pollTimeout);
+		this.pollTimeout = undefined;
+		this.query.update((destroyQuery) => {
+			this.clock.clearTimeout(destroyQuery.stale.timeout);
+			destroyQuery.stale.timeout = undefined;
+			this.clock.clearTimeout(destroyQuery.cache.timeout);
+			destroyQuery.cache.timeout = undefined;
+			return destroyQuery;
+		});
+
+		for (const unsubscriber of this.dependencyUnsubscribers) {
+			get(unsubscriber)();
+		}
+		this.dependencyUnsubscribers = [];
+		this.updateTags();
+		updateCacheEntry(this.queryMap, this);
+		this.forgetPreviousData();
+		const graph = this.queryMap.dependencyGraph;
+		if (graph.get(serialiseKey(this.key)) === this.dependencyEdges) {
+			graph.delete(serialiseKey(this.key));
+		}
+
+		this.queryMap.update((queryMap) => {
+			// Walk down to the query, remembering the path so any objects left
+			// empty by its removal can be pruned on the way back up.
+			const path: Record<string | number, unknown>[] = [queryMap];
+			for (const subKey of this.key.slice(0, -1)) {
+				const next = path[path.length - 1][subKey as string | number];
+				if (typeof next !== "object" || next === null) return queryMap;
+				path.push(next as Record<string | number, unknown>);
+			}
+
+			for (let i = this.key.length - 1; i >= 0; i--) {
+				const parent = path[i];
+				const subKey = this.key[i] as string | number;
+				if (i === this.key.length - 1) {
+					// Only remove ourselves, not a newer query with the same key.
+					if (parent[subKey] !== this.query) return queryMap;
+				} else if (Object.keys(parent[subKey] as object).length > 0) {
+					return queryMap;
+				}
+				delete parent[subKey];
+			}
+			return queryMap;
+		});
+	}
+
 	/** Mark the query stale and clear the cache. Immediately refetches the data,
 	 *  even if not in use.
 	 *
 	 *  See `[invalidateAndRefetch]` for more info.
 	 */
 	invalidateAndRefetch() {
-		this.clearCache(true);
+		this.clearCache(true, true);
 	}
 
 	/** Mark the query stale but keep the cache. Immediately refetches the data,
@@ -1178,49 +2831,79 @@ export class Query<Q extends QueriesType, Key extends keyof Q> {
 		this.markStale(true);
 	}
 
+	/** Sends an event to the query map's `onEvent` listener, if it has one. */
+	emit<T extends QueryEventType>(type: T, payload: QueryEventPayloads<Q>[T]) {
+		const onEvent = this.queryMap.options.onEvent;
+		if (onEvent === undefined) return;
+
+		try {
+			onEvent({
+				type,
+				key: this.key,
+				timestamp: this.clock.now(),
+				payload
+			} as QueryEvent<Q>);
+		} catch (e) {
+			console.warn("Query event listener threw", e);
+		}
+	}
+
+	/** Sends free-form debugging info to the query map's `tracers`. Use
+	 *  `emit` for anything a listener might want to act on.
+	 */
 	trace(...args: unknown[]) {
-		trace(this.key, ...args);
+		trace(this.queryMap, this.key, ...args);
 	}
 }
 
 /** See `[CreateQueryMapResponse.invalidateAndRefetch]` for documentation. */
-export function invalidateAndRefetch<
-	Q extends QueriesType,
-	Key extends keyof Q
->(queryMap: WQueryMap<Q>, key: QueryKeys<Q>[Key]) {
-	const query = getQuery(queryMap, key);
-	if (query === undefined) return;
-	get(query).class.invalidateAndRefetch();
+export function invalidateAndRefetch<Q extends QueriesType>(
+	queryMap: WQueryMap<Q>,
+	filter: QueryFilter<Q>
+) {
+	for (const query of findQueries(queryMap, filter)) {
+		get(query).class.invalidateAndRefetch();
+	}
 }
 
 /** See `[CreateQueryMapResponse.invalidate]` for documentation. */
-export function invalidate<Q extends QueriesType, Key extends keyof Q>(
+export function invalidate<Q extends QueriesType>(
 	queryMap: WQueryMap<Q>,
-	key: QueryKeys<Q>[Key]
+	filter: QueryFilter<Q>
 ) {
-	const query = getQuery(queryMap, key);
-	if (query === undefined) return;
-	get(query).class.clearCache();
+	for (const query of findQueries(queryMap, filter)) {
+		get(query).class.clearCache(false, true);
+	}
 }
 
 /** See `[CreateQueryMapResponse.refetch]` for documentation. */
-export function refetch<Q extends QueriesType, Key extends keyof Q>(
+export function refetch<Q extends QueriesType>(
 	queryMap: WQueryMap<Q>,
-	key: QueryKeys<Q>[Key]
+	filter: QueryFilter<Q>
 ) {
-	const query = getQuery(queryMap, key);
-	if (query === undefined) return;
-	get(query).class.refetch();
+	for (const query of findQueries(queryMap, filter)) {
+		get(query).class.refetch();
+	}
 }
 
 /** See `[CreateQueryMapResponse.markStale]` for documentation. */
-export function markStale<Q extends QueriesType, Key extends keyof Q>(
+export function markStale<Q extends QueriesType>(
+	queryMap: WQueryMap<Q>,
+	filter: QueryFilter<Q>
+) {
+	for (const query of findQueries(queryMap, filter)) {
+		get(query).class.markStale();
+	}
+}
+
+/** See `[CreateQueryMapResponse.cancel]` for documentation. */
+export function cancel<Q extends QueriesType, Key extends keyof Q>(
 	queryMap: WQueryMap<Q>,
 	key: QueryKeys<Q>[Key]
 ) {
 	const query = getQuery(queryMap, key);
 	if (query === undefined) return;
-	get(query).class.markStale();
+	get(query).class.cancel();
 }
 
 /** See `[CreateQueryMapResponse.updateData]` for documentation. */
@@ -1234,15 +2917,81 @@ export function updateData<Q extends QueriesType, Key extends keyof Q>(
 	get(query).class.setData(data);
 }
 
-/** Log information to the console. */
+/** Sends free-form debugging info about a query to the query map's
+ *  `tracers`, e.g., from a custom `fetch`.
+ */
 export function trace<Q extends QueriesType, Key extends keyof Q>(
-	keys: QueryKeys<Q>[Key],
+	queryMap: WQueryMap<Q>,
+	key: QueryKeys<Q>[Key],
 	...args: unknown[]
 ) {
-	// console.log(
-	// 	`%c${keys.join("::")}%c `,
-	// 	"color: #596064",
-	// 	"color: white",
-	// 	...args
-	// );
+	for (const tracer of queryMap.tracers) {
+		tracer(key as (string | number)[], args);
+	}
+}
+
+/** Serialises a query key so it can be used as a string key, e.g., in a `Map`
+ *  or in storage.
+ */
+export function serialiseKey(key: readonly unknown[]): string {
+	return JSON.stringify(key);
+}
+
+/** Whether the query map is in the browser, see `QueryMapOptions.browser`. */
+export function inBrowser<Q extends QueriesType>(queryMap: WQueryMap<Q>) {
+	return queryMap.options.browser ?? browser;
+}
+
+/** Pass as `options.placeholderData` to keep showing the data of the previous
+ *  query with the same name while this one loads, e.g., `['user', 1]` while
+ *  switching to `['user', 2]`.
+ */
+export function keepPreviousData<T>(previous: T | undefined): T | undefined {
+	return previous;
+}
+
+/** Returns every query in the query map. */
+export function getAllQueries<Q extends QueriesType>(
+	queryMap: WQueryMap<Q>
+): Writable<QueryMapItem<Q, keyof Q>>[] {
+	return queriesBeneath(get(queryMap));
+}
+
+/** Returns every query selected by `filter`. */
+export function findQueries<Q extends QueriesType>(
+	queryMap: WQueryMap<Q>,
+	filter: QueryFilter<Q>
+): Writable<QueryMapItem<Q, keyof Q>>[] {
+	if (typeof filter === "function") {
+		return getAllQueries(queryMap).filter((query) => {
+			const item = get(query);
+			return filter(item.class.key as QueryKeyArr<Q>, item);
+		});
+	}
+
+	// Walk down the nested query map to the prefix, so only the queries
+	// beneath it are visited.
+	let node: unknown = get(queryMap);
+	for (const subkey of filter as (string | number)[]) {
+		if (typeof node !== "object" || node === null || "subscribe" in node) {
+			return [];
+		}
+		node = (node as Record<string | number, unknown>)[subkey];
+	}
+	if (typeof node !== "object" || node === null) return [];
+	return queriesBeneath(node);
+}
+
+function queriesBeneath<Q extends QueriesType>(
+	node: object
+): Writable<QueryMapItem<Q, keyof Q>>[] {
+	if ("subscribe" in node) return [node as Writable<QueryMapItem<Q, keyof Q>>];
+
+	const queries: Writable<QueryMapItem<Q, keyof Q>>[] = [];
+	for (const child of Object.values(node) as unknown[]) {
+		if (typeof child === "object" && child !== null) {
+			queries.push(...queriesBeneath<Q>(child));
+		}
+	}
+	return queries;
 }
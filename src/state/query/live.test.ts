@@ -0,0 +1,137 @@
+import { describe, it, expect } from "vitest";
+import { get } from "svelte/store";
+import { sse, type ErrorMap, type SseStream } from "$/routes/api";
+import type { QueryMapOptions } from "./lib";
+import { sseSource } from "./live";
+import { fixed } from "./retry";
+import {
+	createFakeFetch,
+	createTestQueryMap,
+	flush,
+	recordResults
+} from "./testing";
+
+type Message = { id: number; text: string };
+type Errors = ErrorMap<{ Kicked: { reason: string } }>;
+type Queries = {
+	messages: { subkeys: [string]; ok: Message[]; err: ["Network"] };
+};
+
+/** A live `messages` query reading from an in-process SSE endpoint. Each
+ *  connection's stream is pushed to `streams`.
+ */
+function setup(options: QueryMapOptions<Queries> = {}) {
+	const queries = createTestQueryMap<Queries>(options);
+	const fetch = createFakeFetch<Queries, "messages">();
+	const streams: SseStream<Message, Errors>[] = [];
+	const network = { online: true };
+	const endpoint = () => {
+		if (!network.online) {
+			return Promise.reject(new TypeError("Failed to fetch"));
+		}
+		return Promise.resolve(
+			sse<Message, Errors>((stream) => {
+				streams.push(stream);
+			})
+		);
+	};
+
+	const live = queries.useLiveQuery(["messages", "general"], fetch.fetch, {
+		source: sseSource<Message>(endpoint),
+		reduce: (messages, message) => [
+			...messages.filter(({ id }) => id !== message.id),
+			message
+		],
+		reconnect: fixed(1000, { retries: 2 })
+	});
+	const results = recordResults(live);
+	return { queries, fetch, streams, network, live, results };
+}
+
+describe("useLiveQuery", () => {
+	it("applies pushed messages to the fetched data", async () => {
+		const { fetch, streams, live, results } = setup();
+		await flush();
+		expect(get(live).connection).toBe("open");
+
+		// Messages before the fetch has finished wait for its data.
+		streams[0]?.send({ id: 2, text: "Early" });
+		await flush();
+		expect(results.last()).toMatchObject({ status: "loading" });
+
+		await fetch.ok([{ id: 1, text: "Hello" }]);
+		streams[0]?.send({ id: 3, text: "Live" });
+		await flush();
+		expect(results.last()).toMatchObject({
+			status: "ok",
+			data: [
+				{ id: 1, text: "Hello" },
+				{ id: 2, text: "Early" },
+				{ id: 3, text: "Live" }
+			]
+		});
+	});
+
+	it("reconnects with backoff and refetches after a drop", async () => {
+		const { queries, fetch, streams, live } = setup();
+		await fetch.ok([]);
+		await flush();
+
+		streams[0]?.close();
+		await flush();
+		expect(get(live).connection).toBe("reconnecting");
+
+		await queries.clock.advance(1000);
+		await flush();
+		expect(streams.length).toBe(2);
+		expect(get(live).connection).toBe("open");
+		expect(fetch.pending().length).toBe(1);
+	});
+
+	it("stops reconnecting once `reconnect` gives up", async () => {
+		const { queries, fetch, streams, network, live } = setup();
+		await fetch.ok([]);
+		await flush();
+
+		network.online = false;
+		streams[0]?.error("Kicked", { reason: "Spam" });
+		await flush();
+		await queries.clock.advance(1000);
+		await flush();
+		expect(get(live).connection).toBe("reconnecting");
+		await queries.clock.advance(1000);
+		await flush();
+
+		expect(get(live).connection).toBe("closed");
+		expect(queries.clock.pending()).toBe(0);
+	});
+
+	it("closes the connection when the last subscriber leaves", async () => {
+		const { streams, results } = setup();
+		await flush();
+		const stream = streams[0];
+
+		results.stop();
+		await flush();
+		expect(stream?.signal.aborted).toBe(true);
+		expect(streams.length).toBe(1);
+	});
+
+	it("never connects outside the browser", async () => {
+		const { streams, live } = setup({ browser: false });
+		await flush();
+		expect(streams.length).toBe(0);
+		expect(get(live).connection).toBe("closed");
+	});
+});
+
+describe("sse", () => {
+	it("cleans up a stream closed while starting", () => {
+		let cleanups = 0;
+		sse<Message>((stream) => {
+			stream.close();
+			return () => cleanups++;
+		});
+		expect(cleanups).toBe(1);
+	});
+});
@@ -0,0 +1,385 @@
+import {
+	derived,
+	get,
+	writable,
+	type Readable,
+	type Writable
+} from "svelte/store";
+import {
+	getQuery,
+	inBrowser,
+	useQuery,
+	type DependencyValues,
+	type QueriesType,
+	type QueryDependency,
+	type QueryError,
+	type QueryFetch,
+	type QueryKeys,
+	type QueryResult,
+	type QueryTimeout,
+	type UseQueryOptionsArg,
+	type WQueryMap
+} from "./lib";
+import { exponentialBackoff, type RetryPolicy } from "./retry";
+
+/** The state of a live query's connection to its source.
+ *
+ *  - `connecting`: opening the first connection.
+ *  - `open`: messages are being received.
+ *  - `reconnecting`: the connection dropped and is waiting to be opened again.
+ *  - `closed`: there are no subscribers, or `reconnect` gave up.
+ */
+export type LiveConnectionState =
+	| "connecting"
+	| "open"
+	| "reconnecting"
+	| "closed";
+
+/** The errors a source closes with when it loses its connection, besides the
+ *  error events the server sends.
+ */
+export type LiveSourceError =
+	| ["LIVE:NetworkError"]
+	| ["LIVE:BadResponse", number]
+	| ["LIVE:NotJson"]
+	| ["LIVE:Disconnected"];
+
+export type LiveSourceHandlers<Message> = {
+	/** The connection has been opened. */
+	open(): void;
+	message(message: Message): void;
+	/** The connection has closed, with the server's error event or a
+	 *  `LiveSourceError`. Nothing is called after this.
+	 */
+	close(err: QueryError): void;
+};
+
+/** Opens a connection that pushes messages to `handlers`, and returns a
+ *  function to close it. See `[sseSource]` and `[webSocketSource]`.
+ */
+export type LiveSource<Message> = (
+	handlers: LiveSourceHandlers<Message>
+) => () => void;
+
+export type UseLiveQueryOptions<
+	Q extends QueriesType,
+	Key extends keyof Q,
+	Message,
+	Deps extends QueryDependency<Q>[]
+> = UseQueryOptionsArg<Q, Key, Deps> & {
+	/** Where the messages come from. */
+	source: LiveSource<Message>;
+	/** Applies a message to the cached data and returns the new data.
+	 *
+	 *  Messages received before the first fetch has finished, or while the
+	 *  cache is empty, are applied once there's data. They may already be
+	 *  included in it, so it's best if applying a message twice does nothing,
+	 *  e.g., by replacing items by id rather than appending them.
+	 */
+	reduce: (data: Q[Key]["ok"], message: Message) => Q[Key]["ok"];
+	/** How long to wait before reconnecting after the connection drops, given
+	 *  the number of attempts since it was last open. Defaults to exponential
+	 *  backoff that never gives up.
+	 */
+	reconnect?: RetryPolicy;
+};
+
+export type LiveQueryResult<
+	Q extends QueriesType,
+	Key extends keyof Q
+> = QueryResult<Q, Key> & {
+	connection: LiveConnectionState;
+};
+
+/** The connection shared between every `useLiveQuery` of the same query. */
+type LiveState = {
+	connection: Writable<LiveConnectionState>;
+	/** The number of subscribers across every `useLiveQuery` of the query. */
+	subscribers: number;
+	/** Increased every time a connection is opened or closed, so handlers of
+	 *  an old connection are ignored.
+	 */
+	connectionId: number;
+	/** The number of connection attempts since the last one was open. */
+	attempts: number;
+	/** Closes the open connection. */
+	close: (() => void) | undefined;
+	timeout: QueryTimeout | undefined;
+	/** Messages waiting for the cache to have data. */
+	pending: unknown[];
+	stopWatchingCache: (() => void) | undefined;
+};
+const liveStates = new WeakMap<object, LiveState>();
+
+/** See `[CreateQueryMapResponse.useLiveQuery]` for documentation. */
+export function useLiveQuery<
+	Q extends QueriesType,
+	Key extends keyof Q,
+	Message,
+	Deps extends QueryDependency<Q>[] = []
+>(
+	queryMap: WQueryMap<Q>,
+	key: QueryKeys<Q>[Key],
+	fetch: QueryFetch<Q, Key, DependencyValues<Deps>> | undefined,
+	options: UseLiveQueryOptions<Q, Key, Message, Deps>
+): Readable<LiveQueryResult<Q, Key>> {
+	const {
+		source,
+		reduce,
+		reconnect = exponentialBackoff({ retries: Infinity }),
+		...queryOptions
+	} = options;
+
+	const current = useQuery(
+		queryMap,
+		key,
+		fetch,
+		queryOptions as UseQueryOptionsArg<Q, Key, Deps>
+	);
+	const query = getQuery(queryMap, key);
+	if (query === undefined) {
+		throw new Error("`useLiveQuery` query should exist after `useQuery`");
+	}
+	const queryClass = get(query).class;
+	const state: LiveState = liveStates.get(queryClass) ?? {
+		connection: writable("closed"),
+		subscribers: 0,
+		connectionId: 0,
+		attempts: 0,
+		close: undefined,
+		timeout: undefined,
+		pending: [],
+		stopWatchingCache: undefined
+	};
+	liveStates.set(queryClass, state);
+
+	/** Applies the pending messages if the cache has data. */
+	function applyPending() {
+		if (query === undefined || state.pending.length === 0) return;
+		const { cache } = get(query);
+		if (!cache.hasCached || cache.data[0] === "none") return;
+
+		const messages = state.pending;
+		state.pending = [];
+		queryClass.trace("Applying", messages.length, "live messages");
+		let data = cache.data[1];
+		for (const message of messages) data = reduce(data, message as Message);
+		queryClass.setData(data);
+	}
+
+	function connect() {
+		const connectionId = ++state.connectionId;
+		const isCurrent = () =>
+			connectionId === state.connectionId && !queryClass.isDestroyed;
+
+		queryClass.trace("Opening live connection");
+		state.connection.set(state.attempts === 0 ? "connecting" : "reconnecting");
+		state.close = source({
+			open() {
+				if (!isCurrent()) return;
+				queryClass.trace("Live connection open");
+				// Messages may have been missed while disconnected.
+				if (state.attempts > 0) queryClass.refetch();
+				state.attempts = 0;
+				state.connection.set("open");
+			},
+			message(message) {
+				if (!isCurrent()) return;
+				state.pending.push(message);
+				applyPending();
+			},
+			close(err) {
+				if (!isCurrent()) return;
+				state.close = undefined;
+				state.attempts++;
+				const delay = reconnect(state.attempts, err);
+				queryClass.trace("Live connection closed with", err);
+				if (delay === false) {
+					state.connection.set("closed");
+					return;
+				}
+				state.connection.set("reconnecting");
+				state.timeout = queryMap.clock.setTimeout(() => {
+					state.timeout = undefined;
+					connect();
+				}, delay);
+			}
+		});
+	}
+
+	function start() {
+		// E.g., SSR, where the connection would outlive the render, and
+		// `WebSocket` may not exist.
+		if (!inBrowser(queryMap) || queryMap.options.server === true) return;
+
+		state.attempts = 0;
+		state.pending = [];
+		// Messages that arrived before the fetch finished are applied once
+		// it has.
+		state.stopWatchingCache = query?.subscribe(() => {
+			// Not while the query is being updated.
+			queueMicrotask(applyPending);
+		});
+		connect();
+	}
+
+	function stop() {
+		queryClass.trace("Closing live connection");
+		state.connectionId++;
+		state.close?.();
+		state.close = undefined;
+		queryMap.clock.clearTimeout(state.timeout);
+		state.timeout = undefined;
+		state.stopWatchingCache?.();
+		state.stopWatchingCache = undefined;
+		state.connection.set("closed");
+	}
+
+	const result = derived(
+		[current, state.connection],
+		([current, connection]) => ({ ...current, connection })
+	);
+
+	return {
+		subscribe(run, invalidate) {
+			if (state.subscribers++ === 0) start();
+			const unsubscribe = result.subscribe(run, invalidate);
+			return () => {
+				unsubscribe();
+				if (--state.subscribers === 0) stop();
+			};
+		}
+	};
+}
+
+/** A source reading Server-Sent Events from the `Response` of `request`,
+ *  like the ones sent by `sse` in `$/routes/api`. Each event's `data` is an
+ *  `{ error, data }` envelope; error events close the connection with
+ *  `[code, data]`.
+ *
+ *  It reads the response body rather than using `EventSource`, so requests
+ *  can have headers and it works outside the browser.
+ *
+ *  # Example
+ *  ```ts
+ *  sseSource((signal) => fetch(`/api/channels/${id}/events`, { signal }))
+ *  ```
+ */
+export function sseSource<Message>(
+	request: (signal: AbortSignal) => Promise<Response>
+): LiveSource<Message> {
+	return (handlers) => {
+		const controller = new AbortController();
+		const close = (err: QueryError) => {
+			if (controller.signal.aborted) return;
+			controller.abort();
+			handlers.close(err);
+		};
+
+		void (async () => {
+			let response: Response;
+			try {
+				response = await request(controller.signal);
+			} catch {
+				return close(["LIVE:NetworkError"]);
+			}
+			if (controller.signal.aborted) return;
+			if (!response.ok || response.body === null) {
+				return close(["LIVE:BadResponse", response.status]);
+			}
+			handlers.open();
+
+			const reader = response.body
+				.pipeThrough(new TextDecoderStream())
+				.getReader();
+			// Stop reading once closed, which also tells the server.
+			controller.signal.addEventListener("abort", () => void reader.cancel());
+			let buffer = "";
+			try {
+				for (;;) {
+					const { done, value } = await reader.read();
+					if (done || controller.signal.aborted) break;
+
+					buffer += value;
+					const events = buffer.split(/\r?\n\r?\n/);
+					buffer = events.pop() ?? "";
+					for (const event of events) {
+						const data = event
+							.split(/\r?\n/)
+							.filter((line) => line.startsWith("data:"))
+							.map((line) => line.slice(5).replace(/^ /, ""))
+							.join("\n");
+						// Comments and events without data, e.g., keep alives.
+						if (data === "") continue;
+
+						const parsed = parseEnvelope<Message>(data);
+						if (parsed[0] === "err") return close(parsed[1]);
+						handlers.message(parsed[1]);
+					}
+				}
+			} catch {
+				return close(["LIVE:NetworkError"]);
+			}
+			close(["LIVE:Disconnected"]);
+		})();
+
+		return () => controller.abort();
+	};
+}
+
+/** A source reading messages from a WebSocket. Each message is an
+ *  `{ error, data }` envelope as JSON; error messages close the connection
+ *  with `[code, data]`.
+ */
+export function webSocketSource<Message>(
+	url: string | URL | (() => string | URL)
+): LiveSource<Message> {
+	return (handlers) => {
+		const socket = new WebSocket(typeof url === "function" ? url() : url);
+		let isClosed = false;
+		const close = (err: QueryError) => {
+			if (isClosed) return;
+			isClosed = true;
+			socket.close();
+			handlers.close(err);
+		};
+
+		socket.addEventListener("open", () => handlers.open());
+		socket.addEventListener("message", (event) => {
+			if (isClosed || typeof event.data !== "string") return;
+			const parsed = parseEnvelope<Message>(event.data);
+			if (parsed[0] === "err") return close(parsed[1]);
+			handlers.message(parsed[1]);
+		});
+		socket.addEventListener("error", () => close(["LIVE:NetworkError"]));
+		socket.addEventListener("close", () => close(["LIVE:Disconnected"]));
+
+		return () => {
+			isClosed = true;
+			socket.close();
+		};
+	};
+}
+
+/** Parses an `{ error, data }` envelope into the message or the error. */
+function parseEnvelope<Message>(
+	text: string
+): ["ok", Message] | ["err", QueryError] {
+	let envelope: unknown;
+	try {
+		envelope = JSON.parse(text);
+	} catch {
+		return ["err", ["LIVE:NotJson"]];
+	}
+	if (typeof envelope !== "object" || envelope === null) {
+		return ["err", ["LIVE:NotJson"]];
+	}
+
+	const { error, code, data } = envelope as {
+		error?: boolean;
+		code?: string;
+		data?: unknown;
+	};
+	if (error !== true) return ["ok", data as Message];
+	return ["err", data === undefined ? [String(code)] : [String(code), data]];
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest";
+import { get } from "svelte/store";
+import type { FetchResultErr, FetchResultOk } from "./lib";
+import { memoryStorage } from "./storage";
+import {
+	createFakeFetch,
+	createTestQueryMap,
+	flush,
+	recordResults
+} from "./testing";
+
+type Queries = {
+	note: { subkeys: [number]; ok: string; err: ["Network"] };
+};
+type SaveNoteResult = FetchResultOk<string> | FetchResultErr<["Conflict"]>;
+
+/** A query map with a loaded note and a `saveNote` mutation that updates it
+ *  optimistically, then settles with `respond`.
+ */
+async function setup(respond: () => Promise<SaveNoteResult>) {
+	const queries = createTestQueryMap<Queries>();
+	const fetch = createFakeFetch<Queries, "note">();
+	const results = recordResults(queries.useQuery(["note", 1], fetch.fetch));
+	await fetch.ok("Old");
+
+	const settled: string[] = [];
+	const saveNote = queries.useMutation({
+		mutate: (_: string) => respond(),
+		onMutate: (text, ctx) => ctx.updateData(["note", 1], text),
+		onSettled: (result) => void settled.push(result.status),
+		invalidates: [["note", 1]]
+	});
+	return { queries, fetch, results, saveNote, settled };
+}
+
+describe("useMutation", () => {
+	it("keeps optimistic updates and invalidates on success", async () => {
+		const { fetch, results, saveNote } = await setup(() =>
+			Promise.resolve(["ok", "New"])
+		);
+
+		expect(await saveNote.mutate("New")).toEqual({
+			status: "ok",
+			data: "New"
+		});
+		expect(results.results).toContainEqual({ status: "ok", data: "New" });
+		// Then it's refetched to get the server's data.
+		expect(fetch.pending().length).toBe(1);
+	});
+
+	it("rolls back optimistic updates on error", async () => {
+		const { results, saveNote, settled } = await setup(() =>
+			Promise.resolve(["err", ["Conflict"]])
+		);
+
+		expect(await saveNote.mutate("New")).toEqual({
+			status: "err",
+			err: ["Conflict"]
+		});
+		expect(results.last()).toEqual({ status: "ok", data: "Old" });
+		expect(settled).toEqual(["err"]);
+	});
+
+	it("rolls back and rethrows when `mutate` throws", async () => {
+		const error = new TypeError("Failed to fetch");
+		const { results, saveNote, settled } = await setup(() =>
+			Promise.reject(error)
+		);
+
+		await expect(saveNote.mutate("New")).rejects.toBe(error);
+		expect(get(saveNote)).toEqual({ status: "err", err: error });
+		expect(results.last()).toEqual({ status: "ok", data: "Old" });
+		expect(settled).toEqual(["err"]);
+	});
+});
+
+describe("rolling back", () => {
+	it("doesn't roll back over another mutation's update", async () => {
+		const responses: ((result: SaveNoteResult) => void)[] = [];
+		const { fetch, results, saveNote } = await setup(
+			() => new Promise((res) => responses.push(res))
+		);
+
+		const first = saveNote.mutate("First");
+		const second = saveNote.mutate("Second");
+		await flush();
+		responses[0](["err", ["Conflict"]]);
+		await first;
+		expect(results.last()).toEqual({ status: "ok", data: "Second" });
+		// Refetched as the server has one of them, but it's unknown which.
+		expect(fetch.pending().length).toBe(1);
+
+		responses[1](["ok", "Second"]);
+		await second;
+		await fetch.ok("Second");
+		expect(results.last()).toEqual({ status: "ok", data: "Second" });
+	});
+
+	it("restores the snapshot without persisting it as fresh data", async () => {
+		const storage = memoryStorage();
+		const queries = createTestQueryMap<Queries>({
+			persist: { storage, version: 1 }
+		});
+		const fetch = createFakeFetch<Queries, "note">();
+		const results = recordResults(
+			queries.useQuery(["note", 1], fetch.fetch, {
+				stale: { duration: () => 1000 }
+			})
+		);
+		await fetch.ok("Old");
+		await queries.clock.advance(600);
+
+		const saveNote = queries.useMutation({
+			mutate: (_: string): Promise<SaveNoteResult> =>
+				Promise.resolve(["err", ["Conflict"]]),
+			onMutate: (text, ctx) => {
+				ctx.updateData(["note", 1], text);
+				expect(storage.get('query:["note",1]')).toMatchObject({ data: text });
+			}
+		});
+		await saveNote.mutate("New");
+		await flush();
+		expect(results.last()).toEqual({ status: "ok", data: "Old" });
+		expect(storage.get('query:["note",1]')).toBeUndefined();
+
+		// Still stale when it would've been without the update.
+		await queries.clock.advance(400);
+		expect(fetch.pending().length).toBe(1);
+	});
+});
@@ -0,0 +1,244 @@
+import { get, writable, type Readable } from "svelte/store";
+import {
+	getQuery,
+	invalidate,
+	refetch,
+	type FetchResultErr,
+	type FetchResultOk,
+	type QueriesType,
+	type QueryFilter,
+	type QueryKeys,
+	type WQueryMap
+} from "./lib";
+import { invalidateTags, type QueryTag } from "./tags";
+
+export type MutationResult<Data, Err> =
+	| MutationResultIdle
+	| MutationResultPending
+	| MutationResultErr<Err>
+	| MutationResultOk<Data>;
+export type MutationResultIdle = {
+	/** The mutation has not been run yet, or has been `reset`. */
+	status: "idle";
+};
+export type MutationResultPending = {
+	status: "pending";
+};
+export type MutationResultErr<Err> = {
+	status: "err";
+	err: Err;
+};
+export type MutationResultOk<Data> = {
+	status: "ok";
+	data: Data;
+};
+
+/** Passed to `onMutate` so optimistic updates can be rolled back. */
+export type MutationContext<Q extends QueriesType> = {
+	/** Update the `data` and `cache` of a query with your own data, the same as
+	 *  `[CreateQueryMapResponse.updateData]`.
+	 *
+	 *  The first time a query is updated through here its cache is
+	 *  snapshotted, and is restored with its old stale and cache times if the
+	 *  mutation fails. If something else has updated the query since, e.g.,
+	 *  another mutation, it's marked stale instead so that update isn't lost.
+	 */
+	updateData<Key extends keyof Q>(
+		key: QueryKeys<Q>[Key],
+		data: Q[Key]["ok"]
+	): void;
+	/** Returns the cached data of a query, or `undefined` if the query does not
+	 *  exist or has nothing cached.
+	 */
+	getData<Key extends keyof Q>(
+		key: QueryKeys<Q>[Key]
+	): Q[Key]["ok"] | undefined;
+};
+
+export type UseMutationOptions<Q extends QueriesType, Vars, Data, Err> = {
+	/** The request to the server. */
+	mutate: (vars: Vars) => Promise<FetchResultOk<Data> | FetchResultErr<Err>>;
+
+	/** Called before `mutate`. This is where you should make optimistic updates
+	 *  through `ctx.updateData`, so they can be rolled back on failure.
+	 */
+	onMutate?: (vars: Vars, ctx: MutationContext<Q>) => void | Promise<void>;
+	/** Called after `mutate` succeeds, before any queries are invalidated. */
+	onSuccess?: (data: Data, vars: Vars) => void | Promise<void>;
+	/** Called after `mutate` fails and the optimistic updates have been
+	 *  rolled back.
+	 */
+	onError?: (err: Err, vars: Vars) => void | Promise<void>;
+	/** Called after `mutate` finishes, whether it succeeded or not. */
+	onSettled?: (
+		result: MutationResultOk<Data> | MutationResultErr<Err>,
+		vars: Vars
+	) => void | Promise<void>;
+
+	/** Queries to `invalidate` when the mutation succeeds. */
+	invalidates?:
+		| QueryFilter<Q>[]
+		| ((data: Data, vars: Vars) => QueryFilter<Q>[]);
+	/** Queries to `refetch` when the mutation succeeds. */
+	refetches?: QueryFilter<Q>[] | ((data: Data, vars: Vars) => QueryFilter<Q>[]);
+	/** Tags to `invalidateTags` with when the mutation succeeds. Queries
+	 *  providing them are invalidated.
+	 */
+	invalidatesTags?: QueryTag[] | ((data: Data, vars: Vars) => QueryTag[]);
+};
+
+export type Mutation<Vars, Data, Err> = Readable<MutationResult<Data, Err>> & {
+	/** Runs the mutation. Resolves once `onSettled` has finished.
+	 *
+	 *  If `onMutate` or `mutate` throws, the optimistic updates are rolled
+	 *  back and the store shows what was thrown as its `err`. The hooks run as
+	 *  for any error, then this rejects with it.
+	 */
+	mutate(vars: Vars): Promise<MutationResultOk<Data> | MutationResultErr<Err>>;
+	/** Sets the mutation back to `idle`. */
+	reset(): void;
+};
+
+/** See `[CreateQueryMapResponse.useMutation]` for documentation. */
+export function useMutation<Q extends QueriesType, Vars, Data, Err>(
+	queryMap: WQueryMap<Q>,
+	options: UseMutationOptions<Q, Vars, Data, Err>
+): Mutation<Vars, Data, Err> {
+	const state = writable<MutationResult<Data, Err>>({ status: "idle" });
+
+	async function mutate(
+		vars: Vars
+	): Promise<MutationResultOk<Data> | MutationResultErr<Err>> {
+		state.set({ status: "pending" });
+
+		const { ctx, rollback } = createMutationContext(queryMap);
+		let response: FetchResultOk<Data> | FetchResultErr<Err>;
+		try {
+			await options.onMutate?.(vars, ctx);
+			response = await options.mutate(vars);
+		} catch (e) {
+			// Thrown rather than returned, e.g., `fetch` while offline. Clean
+			// up like any other error, then let the caller see it.
+			const result: MutationResultErr<Err> = { status: "err", err: e as Err };
+			rollback();
+			state.set(result);
+			await options.onError?.(result.err, vars);
+			await options.onSettled?.(result, vars);
+			throw e;
+		}
+
+		let result: MutationResultOk<Data> | MutationResultErr<Err>;
+		if (response[0] === "ok") {
+			result = { status: "ok", data: response[1] };
+			state.set(result);
+			await options.onSuccess?.(response[1], vars);
+
+			invalidateOnSuccess(queryMap, options, response[1], vars);
+		} else {
+			result = { status: "err", err: response[1] };
+			rollback();
+			state.set(result);
+			await options.onError?.(response[1], vars);
+		}
+
+		await options.onSettled?.(result, vars);
+		return result;
+	}
+
+	return {
+		subscribe: state.subscribe,
+		mutate,
+		reset() {
+			state.set({ status: "idle" });
+		}
+	};
+}
+
+/** Creates the `ctx` passed to `onMutate`. `rollback` restores every query
+ *  updated through it. `onUpdate` is called with each update.
+ */
+export function createMutationContext<Q extends QueriesType>(
+	queryMap: WQueryMap<Q>,
+	onUpdate?: (key: QueryKeys<Q>[keyof Q], data: unknown) => void
+): { ctx: MutationContext<Q>; rollback: () => void } {
+	// Restores each query's cache from before its first optimistic update,
+	// keyed by the query so later updates don't overwrite it.
+	const rollbacks = new Map<unknown, () => void>();
+	// The data of each query's last optimistic update.
+	const updates = new Map<unknown, unknown>();
+	const ctx: MutationContext<Q> = {
+		updateData(key, data) {
+			const query = getQuery(queryMap, key);
+			if (query === undefined) return;
+
+			const item = get(query);
+			if (!rollbacks.has(query)) {
+				const snapshot = item.class.dehydrate();
+				rollbacks.set(query, () => {
+					const { cache } = get(query);
+					if (
+						cache.data[0] === "some" &&
+						cache.data[1] === updates.get(query)
+					) {
+						item.class.restore(snapshot);
+					} else {
+						// Something else, e.g., another mutation, has updated it
+						// since. Restoring the snapshot would undo that too, so
+						// keep it until the server says otherwise.
+						item.class.markStale();
+					}
+				});
+			}
+			item.class.setData(data);
+			updates.set(query, data);
+			onUpdate?.(key, data);
+		},
+		getData(key) {
+			const query = getQuery(queryMap, key);
+			if (query === undefined) return undefined;
+
+			const { cache } = get(query);
+			return cache.hasCached && cache.data[0] === "some"
+				? cache.data[1]
+				: undefined;
+		}
+	};
+
+	return {
+		ctx,
+		rollback() {
+			for (const rollback of rollbacks.values()) rollback();
+		}
+	};
+}
+
+/** Invalidates and refetches the queries and tags a successful mutation
+ *  lists in its options.
+ */
+export function invalidateOnSuccess<Q extends QueriesType, Vars, Data, Err>(
+	queryMap: WQueryMap<Q>,
+	options: Pick<
+		UseMutationOptions<Q, Vars, Data, Err>,
+		"invalidates" | "refetches" | "invalidatesTags"
+	>,
+	data: Data,
+	vars: Vars
+) {
+	const toInvalidate =
+		typeof options.invalidates === "function"
+			? options.invalidates(data, vars)
+			: options.invalidates ?? [];
+	for (const filter of toInvalidate) invalidate(queryMap, filter);
+
+	const toRefetch =
+		typeof options.refetches === "function"
+			? options.refetches(data, vars)
+			: options.refetches ?? [];
+	for (const filter of toRefetch) refetch(queryMap, filter);
+
+	const tags =
+		typeof options.invalidatesTags === "function"
+			? options.invalidatesTags(data, vars)
+			: options.invalidatesTags ?? [];
+	invalidateTags(queryMap, tags, "invalidate");
+}
@@ -0,0 +1,208 @@
+import { describe, it, expect, vi } from "vitest";
+import { get } from "svelte/store";
+import type { FetchResultErr, FetchResultOk, FetchResultRetry } from "./lib";
+import { memoryQueueStorage, type MutationQueueStorage } from "./offline";
+import {
+	createFakeFetch,
+	createTestQueryMap,
+	flush,
+	recordResults
+} from "./testing";
+
+const fakeWindow = new EventTarget();
+// Test files run in their own environment, so these don't leak into others.
+vi.stubGlobal("document", new EventTarget());
+vi.stubGlobal("window", fakeWindow);
+
+type Queries = {
+	note: { subkeys: [number]; ok: string; err: ["Network"] };
+};
+type Mutations = {
+	saveNote: {
+		vars: { id: number; text: string };
+		data: string;
+		err: ["Network"] | ["Conflict", { text: string }];
+	};
+};
+type SaveNoteResult =
+	| FetchResultOk<string>
+	| FetchResultErr<Mutations["saveNote"]["err"]>
+	| FetchResultRetry<Mutations["saveNote"]["err"]>;
+
+const OFFLINE: SaveNoteResult = [
+	"retry",
+	{ err: ["Network"], returnError: true }
+];
+
+/** A query map with a loaded note, and a queue whose `saveNote` returns the
+ *  results in `responses` in order.
+ */
+async function setup(storage: MutationQueueStorage = memoryQueueStorage()) {
+	const queries = createTestQueryMap<Queries>();
+	const fetch = createFakeFetch<Queries, "note">();
+	const results = recordResults(queries.useQuery(["note", 1], fetch.fetch));
+	await fetch.ok("Old");
+
+	// An `Error` is thrown instead of returned.
+	const responses: (SaveNoteResult | Error)[] = [];
+	const sent: Mutations["saveNote"]["vars"][] = [];
+	const notes = queries.createMutationQueue<Mutations>({
+		storage,
+		mutations: {
+			saveNote: {
+				mutate(vars) {
+					sent.push(vars);
+					const response = responses.shift() ?? OFFLINE;
+					if (response instanceof Error) return Promise.reject(response);
+					return Promise.resolve(response);
+				},
+				onMutate(note, ctx) {
+					ctx.updateData(["note", note.id], note.text);
+					if (note.text === "") throw new Error("Notes can't be empty");
+				}
+			}
+		}
+	});
+	await flush();
+	return { queries, fetch, results, notes, responses, sent, storage };
+}
+
+describe("createMutationQueue", () => {
+	it("sends mutations straight away while online", async () => {
+		const { notes, responses } = await setup();
+		responses.push(["ok", "New"]);
+
+		const saveNote = notes.useMutation("saveNote");
+		expect(await saveNote.mutate({ id: 1, text: "New" })).toEqual({
+			status: "ok",
+			data: "New"
+		});
+		expect(get(notes.queue)).toEqual([]);
+	});
+
+	it("queues mutations while offline, keeping their optimistic updates", async () => {
+		const { notes, results, storage } = await setup();
+
+		const saveNote = notes.useMutation("saveNote");
+		expect(await saveNote.mutate({ id: 1, text: "New" })).toEqual({
+			status: "queued"
+		});
+		expect(get(saveNote)).toEqual({ status: "queued" });
+		expect(results.last()).toEqual({ status: "ok", data: "New" });
+		expect(await storage.load()).toMatchObject([
+			{ name: "saveNote", vars: { id: 1, text: "New" } }
+		]);
+	});
+
+	it("queues mutations whose request throws", async () => {
+		const { notes, responses, results } = await setup();
+		responses.push(new TypeError("Failed to fetch"));
+
+		const saveNote = notes.useMutation("saveNote");
+		expect(await saveNote.mutate({ id: 1, text: "New" })).toEqual({
+			status: "queued"
+		});
+		expect(results.last()).toEqual({ status: "ok", data: "New" });
+
+		responses.push(new TypeError("Failed to fetch"));
+		await expect(notes.replay()).resolves.toBeUndefined();
+		expect(get(notes.queue).length).toBe(1);
+	});
+
+	it("rolls back and rethrows when `onMutate` throws", async () => {
+		const { notes, results, sent } = await setup();
+
+		const saveNote = notes.useMutation("saveNote");
+		await expect(saveNote.mutate({ id: 1, text: "" })).rejects.toThrow(
+			"Notes can't be empty"
+		);
+		expect(get(saveNote)).toMatchObject({ status: "err" });
+		expect(results.last()).toEqual({ status: "ok", data: "Old" });
+		expect(get(notes.queue)).toEqual([]);
+		expect(sent).toEqual([]);
+	});
+
+	it("replays queued mutations in order once back online", async () => {
+		const { notes, responses, sent } = await setup();
+		const saveNote = notes.useMutation("saveNote");
+		await saveNote.mutate({ id: 1, text: "First" });
+		await saveNote.mutate({ id: 1, text: "Second" });
+		expect(get(notes.queue).length).toBe(2);
+
+		responses.push(["ok", "First"], ["ok", "Second"]);
+		await notes.replay();
+		expect(sent.slice(-2).map((vars) => vars.text)).toEqual([
+			"First",
+			"Second"
+		]);
+		expect(get(notes.queue)).toEqual([]);
+		expect(get(saveNote)).toEqual({ status: "ok", data: "Second" });
+	});
+
+	it("replays when the network reconnects until destroyed", async () => {
+		const { notes, responses } = await setup();
+		const saveNote = notes.useMutation("saveNote");
+		await saveNote.mutate({ id: 1, text: "First" });
+
+		responses.push(["ok", "First"]);
+		fakeWindow.dispatchEvent(new Event("online"));
+		await flush();
+		expect(get(notes.queue)).toEqual([]);
+
+		await saveNote.mutate({ id: 1, text: "Second" });
+		notes.destroy();
+		responses.push(["ok", "Second"]);
+		fakeWindow.dispatchEvent(new Event("online"));
+		await flush();
+		expect(get(notes.queue).length).toBe(1);
+	});
+
+	it("reports conflicts when a queued mutation is rejected", async () => {
+		const { notes, responses, results, fetch } = await setup();
+		const saveNote = notes.useMutation("saveNote");
+		await saveNote.mutate({ id: 1, text: "New" });
+
+		responses.push(["err", ["Conflict", { text: "Theirs" }]]);
+		await notes.replay();
+		const conflicts = get(notes.conflicts);
+		expect(conflicts).toMatchObject([
+			{
+				name: "saveNote",
+				vars: { id: 1, text: "New" },
+				err: ["Conflict", { text: "Theirs" }]
+			}
+		]);
+
+		// The note is refetched to show the server's data.
+		await fetch.ok("Theirs");
+		expect(results.last()).toEqual({ status: "ok", data: "Theirs" });
+
+		notes.dismissConflict(conflicts[0]?.id ?? "");
+		expect(get(notes.conflicts)).toEqual([]);
+	});
+
+	it("rolls back mutations rejected the first time they're sent", async () => {
+		const { notes, responses, results } = await setup();
+		responses.push(["err", ["Conflict", { text: "Theirs" }]]);
+
+		const saveNote = notes.useMutation("saveNote");
+		await saveNote.mutate({ id: 1, text: "New" });
+		expect(results.last()).toEqual({ status: "ok", data: "Old" });
+		expect(get(notes.conflicts)).toEqual([]);
+	});
+
+	it("restores the queue and its optimistic updates after a reload", async () => {
+		const storage = memoryQueueStorage();
+		const before = await setup(storage);
+		await before.notes.useMutation("saveNote").mutate({ id: 1, text: "New" });
+
+		const after = await setup(storage);
+		expect(get(after.notes.queue).length).toBe(1);
+		expect(after.results.last()).toEqual({ status: "ok", data: "New" });
+
+		after.responses.push(["ok", "New"]);
+		await after.notes.replay();
+		expect(get(after.notes.queue)).toEqual([]);
+		expect(await storage.load()).toEqual([]);
+	});
+});
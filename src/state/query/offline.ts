@@ -0,0 +1,425 @@
+import { get, writable, type Readable } from "svelte/store";
+import { browser } from "$app/environment";
+import {
+	getQuery,
+	inBrowser,
+	invalidate,
+	serialiseKey,
+	type FetchResultErr,
+	type FetchResultOk,
+	type FetchResultRetry,
+	type QueriesType,
+	type QueryError,
+	type QueryFilter,
+	type QueryKeys,
+	type WQueryMap
+} from "./lib";
+import {
+	createMutationContext,
+	invalidateOnSuccess,
+	type MutationResult,
+	type MutationResultErr,
+	type MutationResultOk,
+	type UseMutationOptions
+} from "./mutation";
+
+/** The simplest form of the `Mutations` type passed to `createMutationQueue`,
+ *  like `QueriesType` for queries.
+ */
+export type OfflineMutationsType = Record<
+	string,
+	{ vars: unknown; data: unknown; err: QueryError }
+>;
+
+/** A mutation waiting to be sent, as it's written to storage. */
+export type QueuedMutation = {
+	id: string;
+	/** The name of the mutation in `MutationQueueOptions.mutations`. */
+	name: string;
+	vars: unknown;
+	/** The optimistic updates `onMutate` made, as query keys and their data.
+	 *  They're made again after a reload, so the edits aren't lost from view.
+	 */
+	updates: [key: unknown[], data: unknown][];
+	/** When the mutation was made, in milliseconds since the epoch. */
+	queuedAt: number;
+};
+
+/** Where the mutation queue is stored, so it survives reloads. */
+export interface MutationQueueStorage {
+	load(): QueuedMutation[] | undefined | Promise<QueuedMutation[] | undefined>;
+	save(queue: QueuedMutation[]): void | Promise<void>;
+}
+
+export type OfflineMutationOptions<
+	Q extends QueriesType,
+	Vars,
+	Data,
+	Err
+> = Omit<UseMutationOptions<Q, Vars, Data, Err>, "mutate" | "onSettled"> & {
+	/** The request to the server. Return `retry`, like `apiMutation` does for
+	 *  network errors, to queue the mutation until the network is back.
+	 *
+	 *  `vars` are written to storage, so they must be JSON serialisable.
+	 */
+	mutate: (
+		vars: Vars
+	) => Promise<
+		FetchResultOk<Data> | FetchResultErr<Err> | FetchResultRetry<Err>
+	>;
+};
+
+export type MutationQueueOptions<
+	Q extends QueriesType,
+	M extends OfflineMutationsType
+> = {
+	storage: MutationQueueStorage;
+	/** Every mutation that can be queued, by name. The names are written to
+	 *  storage, so they must stay the same across releases.
+	 */
+	mutations: {
+		[Name in keyof M]: OfflineMutationOptions<
+			Q,
+			M[Name]["vars"],
+			M[Name]["data"],
+			M[Name]["err"]
+		>;
+	};
+};
+
+/** A queued mutation the server rejected when it was replayed, e.g., because
+ *  someone else changed the same data in the meantime.
+ */
+export type MutationConflict<M extends OfflineMutationsType> = {
+	[Name in keyof M]: {
+		id: string;
+		name: Name;
+		vars: M[Name]["vars"];
+		err: M[Name]["err"];
+	};
+}[keyof M];
+
+export type OfflineMutationResult<Data, Err> =
+	| MutationResult<Data, Err>
+	| MutationResultQueued;
+export type MutationResultQueued = {
+	/** The mutation couldn't be sent and is waiting in the queue. Its
+	 *  optimistic updates are kept.
+	 */
+	status: "queued";
+};
+
+export type OfflineMutation<Vars, Data, Err> = Readable<
+	OfflineMutationResult<Data, Err>
+> & {
+	/** Runs the mutation, queueing it if it can't be sent. Resolves once it
+	 *  has settled or been queued. A queued mutation updates the store again
+	 *  once it's replayed. If `onMutate` throws, its updates are rolled back
+	 *  and the error is rethrown without queueing anything.
+	 */
+	mutate(
+		vars: Vars
+	): Promise<
+		MutationResultOk<Data> | MutationResultErr<Err> | MutationResultQueued
+	>;
+	/** Sets the mutation back to `idle`. */
+	reset(): void;
+};
+
+export type MutationQueue<M extends OfflineMutationsType> = {
+	/** Creates a mutation that's queued while offline. */
+	useMutation<Name extends keyof M>(
+		name: Name
+	): OfflineMutation<M[Name]["vars"], M[Name]["data"], M[Name]["err"]>;
+	/** The mutations waiting to be sent, oldest first. */
+	queue: Readable<QueuedMutation[]>;
+	/** The queued mutations the server rejected when they were replayed. */
+	conflicts: Readable<MutationConflict<M>[]>;
+	/** Removes a conflict once it has been dealt with. */
+	dismissConflict(id: string): void;
+	/** Sends the queued mutations in order, stopping at the first that still
+	 *  can't be sent. Called automatically when the network reconnects.
+	 */
+	replay(): Promise<void>;
+	/** Stops replaying on reconnect and making the queued optimistic updates
+	 *  to new queries. The queue stays in storage.
+	 */
+	destroy(): void;
+};
+
+/** See `[CreateQueryMapResponse.createMutationQueue]` for documentation. */
+export function createMutationQueue<
+	Q extends QueriesType,
+	M extends OfflineMutationsType
+>(
+	queryMap: WQueryMap<Q>,
+	{ storage, mutations }: MutationQueueOptions<Q, M>
+): MutationQueue<M> {
+	const queue = writable<QueuedMutation[]>([]);
+	const conflicts = writable<MutationConflict<M>[]>([]);
+	/** The mutations made in this session, to settle them once they're sent
+	 *  and roll them back if they fail the first time.
+	 */
+	const listeners = new Map<
+		string,
+		{
+			settle(
+				result: MutationResultOk<unknown> | MutationResultErr<unknown>
+			): void;
+			rollback(): void;
+		}
+	>();
+	/** The mutations that have waited in the queue. If they fail, someone may
+	 *  have changed the same data in the meantime, so it's a conflict.
+	 */
+	const deferred = new Set<string>();
+	/** The updates that have been made, as `id` and serialised key. */
+	const applied = new Set<string>();
+
+	const save = () => void storage.save(get(queue));
+
+	/** Makes the optimistic updates of mutations queued before a reload, to
+	 *  each query as it's created.
+	 */
+	const applyUpdates = () => {
+		for (const mutation of get(queue)) {
+			for (const [key, data] of mutation.updates) {
+				const id = mutation.id + serialiseKey(key);
+				if (applied.has(id)) continue;
+
+				const query = getQuery(queryMap, key as QueryKeys<Q>[keyof Q]);
+				if (query === undefined) continue;
+				applied.add(id);
+				get(query).class.setData(data);
+			}
+		}
+	};
+
+	let replaying: Promise<void> | undefined;
+	const replay = () => {
+		replaying ??= sendQueued().finally(() => (replaying = undefined));
+		return replaying;
+	};
+	async function sendQueued() {
+		for (;;) {
+			const mutation = get(queue)[0];
+			if (mutation === undefined) return;
+
+			const options = mutations[mutation.name] as
+				| OfflineMutationOptions<Q, unknown, unknown, QueryError>
+				| undefined;
+			if (options === undefined) {
+				console.warn("Dropping queued mutation with no options", mutation);
+				remove(mutation.id);
+				continue;
+			}
+
+			let response: Awaited<ReturnType<typeof options.mutate>>;
+			try {
+				response = await options.mutate(mutation.vars);
+			} catch (e) {
+				// E.g., `fetch` throwing while offline. Keep it queued like a
+				// `retry` rather than losing it.
+				console.warn("Queued mutation threw, keeping it queued", e);
+				response = ["retry", { err: e as QueryError, returnError: true }];
+			}
+			if (response[0] === "retry") {
+				// Still offline, try again when the network reconnects.
+				for (const mutation of get(queue)) deferred.add(mutation.id);
+				return;
+			}
+			const listener = listeners.get(mutation.id);
+			const wasDeferred = deferred.has(mutation.id);
+			remove(mutation.id);
+
+			if (response[0] === "ok") {
+				listener?.settle({ status: "ok", data: response[1] });
+				await options.onSuccess?.(response[1], mutation.vars);
+				invalidateOnSuccess(queryMap, options, response[1], mutation.vars);
+			} else if (!wasDeferred) {
+				listener?.rollback();
+				listener?.settle({ status: "err", err: response[1] });
+				await options.onError?.(response[1], mutation.vars);
+			} else {
+				// The optimistic updates can't be rolled back after a reload,
+				// and later mutations may have built on them. Show the
+				// server's data instead.
+				for (const [key] of mutation.updates) {
+					invalidate(queryMap, key as QueryFilter<Q>);
+				}
+				conflicts.update((conflicts) => [
+					...conflicts,
+					{
+						id: mutation.id,
+						name: mutation.name,
+						vars: mutation.vars,
+						err: response[1]
+					} as MutationConflict<M>
+				]);
+				listener?.settle({ status: "err", err: response[1] });
+				await options.onError?.(response[1], mutation.vars);
+			}
+		}
+	}
+	const remove = (id: string) => {
+		listeners.delete(id);
+		deferred.delete(id);
+		queue.update((queue) => queue.filter((mutation) => mutation.id !== id));
+		save();
+	};
+
+	let isDestroyed = false;
+	let stopApplyingUpdates: (() => void) | undefined;
+	void Promise.resolve(storage.load()).then((stored) => {
+		if (isDestroyed) return;
+		// Mutations may have been queued while loading.
+		for (const mutation of stored ?? []) deferred.add(mutation.id);
+		queue.update((queue) => [...(stored ?? []), ...queue]);
+		applyUpdates();
+		stopApplyingUpdates = queryMap.subscribe(applyUpdates);
+		void replay();
+	});
+	const onOnline = () => void replay();
+	const listensForOnline =
+		inBrowser(queryMap) &&
+		queryMap.options.server !== true &&
+		typeof window !== "undefined";
+	if (listensForOnline) window.addEventListener("online", onOnline);
+
+	return {
+		useMutation(name) {
+			type Data = M[typeof name]["data"];
+			type Err = M[typeof name]["err"];
+			type Settled = MutationResultOk<Data> | MutationResultErr<Err>;
+
+			const options = mutations[name];
+			const state = writable<OfflineMutationResult<Data, Err>>({
+				status: "idle"
+			});
+
+			return {
+				subscribe: state.subscribe,
+				async mutate(vars) {
+					state.set({ status: "pending" });
+
+					const mutation: QueuedMutation = {
+						id: createId(),
+						name: String(name),
+						vars,
+						updates: [],
+						queuedAt: queryMap.clock.now()
+					};
+					const { ctx, rollback } = createMutationContext(
+						queryMap,
+						(key, data) => {
+							applied.add(mutation.id + serialiseKey(key));
+							mutation.updates.push([key, data]);
+						}
+					);
+					try {
+						await options.onMutate?.(vars, ctx);
+					} catch (e) {
+						// Nothing was queued, so clean up like `useMutation`.
+						const result: MutationResultErr<Err> = {
+							status: "err",
+							err: e as Err
+						};
+						rollback();
+						state.set(result);
+						await options.onError?.(result.err, vars);
+						throw e;
+					}
+
+					const settled = new Promise<Settled>((res) => {
+						listeners.set(mutation.id, {
+							settle(result) {
+								state.set(result as Settled);
+								res(result as Settled);
+							},
+							rollback
+						});
+					});
+					queue.update((queue) => [...queue, mutation]);
+					save();
+
+					const queued = replay().then<Settled | MutationResultQueued>(() => {
+						const isQueued = get(queue).some(({ id }) => id === mutation.id);
+						if (!isQueued) return settled;
+
+						state.set({ status: "queued" });
+						return { status: "queued" };
+					});
+					return Promise.race([settled, queued]);
+				},
+				reset() {
+					state.set({ status: "idle" });
+				}
+			};
+		},
+		queue: { subscribe: queue.subscribe },
+		conflicts: { subscribe: conflicts.subscribe },
+		dismissConflict(id) {
+			conflicts.update((conflicts) =>
+				conflicts.filter((conflict) => conflict.id !== id)
+			);
+		},
+		replay,
+		destroy() {
+			isDestroyed = true;
+			stopApplyingUpdates?.();
+			stopApplyingUpdates = undefined;
+			if (listensForOnline) window.removeEventListener("online", onOnline);
+		}
+	};
+}
+
+/** Returns a unique id for a queued mutation. `crypto.randomUUID` is only
+ *  available in secure contexts, so not on a plain http deployment.
+ */
+function createId(): string {
+	if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+		return crypto.randomUUID();
+	}
+	const random = Math.random().toString(36).slice(2);
+	return `${Date.now().toString(36)}-${(idCount++).toString(36)}-${random}`;
+}
+let idCount = 0;
+
+/** Stores the mutation queue in memory. Mostly useful for tests. */
+export function memoryQueueStorage(): MutationQueueStorage {
+	let stored: QueuedMutation[] | undefined;
+	return {
+		load: () => stored,
+		save: (queue) => void (stored = queue)
+	};
+}
+
+/** Stores the mutation queue in `localStorage` as JSON. Does nothing outside
+ *  the browser.
+ */
+export function localStorageQueueStorage(
+	key: string = "mutation-queue"
+): MutationQueueStorage {
+	return {
+		load() {
+			if (!browser) return undefined;
+			const text = localStorage.getItem(key);
+			if (text === null) return undefined;
+			try {
+				return JSON.parse(text) as QueuedMutation[];
+			} catch (e) {
+				console.warn("Could not parse mutation queue", e);
+				return undefined;
+			}
+		},
+		save(queue) {
+			if (!browser) return;
+			try {
+				localStorage.setItem(key, JSON.stringify(queue));
+			} catch (e) {
+				// Most likely the quota has been exceeded.
+				console.warn("Could not store mutation queue", e);
+			}
+		}
+	};
+}
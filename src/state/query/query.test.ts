@@ -0,0 +1,525 @@
+import { describe, it, expect, vi } from "vitest";
+import { get, writable } from "svelte/store";
+import { QDepQuery, QDepSubscription, keepPreviousData, trace } from "./lib";
+import {
+	assertResults,
+	assertStatuses,
+	createFakeFetch,
+	createTestQueryMap,
+	createVirtualClock,
+	flush,
+	recordResults
+} from "./testing";
+
+type Queries = {
+	user: { ok: { name: string }; err: ["NotFound"] | ["Network"] };
+	profile: { subkeys: [number]; ok: { name: string }; err: ["Network"] };
+	posts: { ok: string[]; err: ["Network"] };
+};
+
+describe("Query", () => {
+	it("loads then shows the fetched data", async () => {
+		const queries = createTestQueryMap<Queries>();
+		const fetch = createFakeFetch<Queries, "user">();
+		const results = recordResults(queries.useQuery(["user"], fetch.fetch));
+
+		expect(fetch.pending().length).toBe(1);
+		await fetch.ok({ name: "Ada" });
+		assertResults(results, [
+			{ status: "loading" },
+			{ status: "ok", data: { name: "Ada" } }
+		]);
+	});
+
+	it("shows errors", async () => {
+		const queries = createTestQueryMap<Queries>();
+		const fetch = createFakeFetch<Queries, "user">();
+		const results = recordResults(queries.useQuery(["user"], fetch.fetch));
+
+		await fetch.err(["NotFound"]);
+		assertResults(results, [
+			{ status: "loading" },
+			{ status: "err", err: ["NotFound"], isRefetching: false }
+		]);
+	});
+
+	it("shows the cached data while refetching a stale query", async () => {
+		const queries = createTestQueryMap<Queries>();
+		const fetch = createFakeFetch<Queries, "user">();
+		const results = recordResults(
+			queries.useQuery(["user"], fetch.fetch, {
+				stale: { duration: () => 1000 }
+			})
+		);
+
+		await fetch.ok({ name: "Ada" });
+		await queries.clock.advance(999);
+		expect(fetch.pending().length).toBe(0);
+		await queries.clock.advance(1);
+		expect(fetch.pending().length).toBe(1);
+		expect(results.last()).toEqual({ status: "ok", data: { name: "Ada" } });
+
+		await fetch.ok({ name: "Grace" });
+		assertStatuses(results, ["loading", "ok", "ok"]);
+		expect(results.last()).toEqual({ status: "ok", data: { name: "Grace" } });
+	});
+
+	it("loads again after being invalidated", async () => {
+		const queries = createTestQueryMap<Queries>();
+		const fetch = createFakeFetch<Queries, "user">();
+		const results = recordResults(queries.useQuery(["user"], fetch.fetch));
+
+		await fetch.ok({ name: "Ada" });
+		queries.invalidate(["user"]);
+		await fetch.ok({ name: "Grace" });
+		assertStatuses(results, ["loading", "ok", "loading", "ok"]);
+	});
+
+	it("shows the error while retrying with `returnError`", async () => {
+		const queries = createTestQueryMap<Queries>();
+		const fetch = createFakeFetch<Queries, "user">();
+		const results = recordResults(
+			queries.useQuery(["user"], fetch.fetch, { onRetry: () => 500 })
+		);
+
+		await fetch.retry(["Network"], true);
+		expect(results.last()).toEqual({
+			status: "err",
+			err: ["Network"],
+			isRefetching: true
+		});
+
+		// The retry waits on the clock.
+		await queries.clock.advance(499);
+		expect(fetch.pending().length).toBe(0);
+		await queries.clock.advance(1);
+		await fetch.ok({ name: "Ada" });
+		assertStatuses(results, ["loading", "err", "ok"]);
+	});
+
+	it("stops retrying when `onRetry` returns false", async () => {
+		const queries = createTestQueryMap<Queries>();
+		const fetch = createFakeFetch<Queries, "user">();
+		const results = recordResults(
+			queries.useQuery(["user"], fetch.fetch, {
+				onRetry: (count) => (count >= 2 ? false : 0)
+			})
+		);
+
+		await fetch.retry(["Network"]);
+		await queries.clock.advance(0);
+		await fetch.retry(["Network"]);
+		expect(fetch.calls.length).toBe(2);
+		assertResults(results, [
+			{ status: "loading" },
+			{ status: "err", err: ["Network"], isRefetching: false }
+		]);
+	});
+
+	it("clears the cache once it expires", async () => {
+		const queries = createTestQueryMap<Queries>();
+		const fetch = createFakeFetch<Queries, "user">();
+		recordResults(
+			queries.useQuery(["user"], fetch.fetch, {
+				cache: { duration: () => 1000 }
+			})
+		);
+
+		await fetch.ok({ name: "Ada" });
+		const query = queries.getQuery(["user"]);
+		if (query === undefined) throw new Error("The query should exist");
+		expect(get(query).cache.data[0]).toBe("some");
+		await queries.clock.advance(1000);
+		expect(get(query).cache.data[0]).toBe("none");
+	});
+
+	it("is idle while a dependency stops it", async () => {
+		const queries = createTestQueryMap<Queries>();
+		const token = writable<string | undefined>(undefined);
+		const fetch = createFakeFetch<Queries, "posts">();
+		const results = recordResults(
+			queries.useQuery(["posts"], fetch.fetch, {
+				dependencies: [
+					new QDepSubscription(token, {
+						onChange: (_, current) =>
+							current === undefined ? "stop" : "clearCacheAndRefetch"
+					})
+				]
+			})
+		);
+
+		await Promise.resolve();
+		expect(fetch.calls.length).toBe(0);
+		expect(results.last().status).toBe("idle");
+
+		token.set("abc");
+		expect(fetch.pending()[0]?.dependencies).toEqual(["abc"]);
+		await fetch.ok(["Hello"]);
+		expect(results.last()).toEqual({ status: "ok", data: ["Hello"] });
+	});
+
+	it("waits for dependency queries and refetches when they change", async () => {
+		const queries = createTestQueryMap<Queries>();
+		const userFetch = createFakeFetch<Queries, "user">();
+		const postsFetch = createFakeFetch<Queries, "posts">();
+		recordResults(queries.useQuery(["user"], userFetch.fetch));
+		recordResults(
+			queries.useQuery(["posts"], postsFetch.fetch, {
+				dependencies: [
+					new QDepQuery<Queries, "user">(["user"], {
+						onChange: (_, current) =>
+							current.status === "ok" ? "refetch" : "stop"
+					})
+				]
+			})
+		);
+
+		expect(postsFetch.calls.length).toBe(0);
+		await userFetch.ok({ name: "Ada" });
+		expect(postsFetch.pending()[0]?.dependencies).toEqual([{ name: "Ada" }]);
+		await postsFetch.ok(["Hello"]);
+
+		queries.invalidate(["user"]);
+		await userFetch.ok({ name: "Grace" });
+		expect(postsFetch.pending()[0]?.dependencies).toEqual([{ name: "Grace" }]);
+	});
+
+	it("is destroyed `gcTime` after its last subscriber leaves", async () => {
+		const queries = createTestQueryMap<Queries>();
+		const fetch = createFakeFetch<Queries, "user">();
+		const results = recordResults(
+			queries.useQuery(["user"], fetch.fetch, { gcTime: 1000 })
+		);
+		await fetch.ok({ name: "Ada" });
+
+		results.stop();
+		await queries.clock.advance(999);
+		expect(queries.getQuery(["user"])).toBeDefined();
+		await queries.clock.advance(1);
+		expect(queries.getQuery(["user"])).toBeUndefined();
+	});
+
+	it("shares one fetch between `fetchQuery` calls", async () => {
+		const queries = createTestQueryMap<Queries>();
+		const fetch = createFakeFetch<Queries, "user">();
+
+		const first = queries.fetchQuery(["user"], fetch.fetch);
+		const second = queries.fetchQuery(["user"], fetch.fetch);
+		await fetch.ok({ name: "Ada" });
+		expect(await first).toEqual({ name: "Ada" });
+		expect(await second).toEqual({ name: "Ada" });
+		expect(fetch.calls.length).toBe(1);
+	});
+
+	it("ends in `err` when the fetch throws", async () => {
+		const queries = createTestQueryMap<Queries>();
+		const fetch = createFakeFetch<Queries, "user">();
+		const results = recordResults(queries.useQuery(["user"], fetch.fetch));
+		const error = new TypeError("Failed to fetch");
+		const fetched = expect(
+			queries.fetchQuery(["user"], fetch.fetch)
+		).rejects.toBe(error);
+
+		await fetch.reject(error);
+		expect(results.last()).toEqual({
+			status: "err",
+			isRefetching: false,
+			err: error
+		});
+		await fetched;
+
+		// And it can fetch again.
+		queries.refetch(["user"]);
+		await fetch.ok({ name: "Ada" });
+		expect(results.last()).toEqual({ status: "ok", data: { name: "Ada" } });
+	});
+
+	it("restarts the fetch when a dependency changes during it", async () => {
+		const queries = createTestQueryMap<Queries>();
+		const token = writable("abc");
+		const fetch = createFakeFetch<Queries, "posts">();
+		const results = recordResults(
+			queries.useQuery(["posts"], fetch.fetch, {
+				dependencies: [
+					new QDepSubscription(token, { onChange: () => "refetch" })
+				]
+			})
+		);
+		expect(fetch.pending().length).toBe(1);
+
+		token.set("def");
+		expect(fetch.calls[0]?.signal.aborted).toBe(true);
+		expect(fetch.pending()[0]?.dependencies).toEqual(["def"]);
+
+		// The superseded fetch finishing late is ignored.
+		fetch.calls[0]?.settle(["ok", ["For abc"]]);
+		await flush();
+		expect(results.last()).toEqual({ status: "loading" });
+		await fetch.ok(["For def"]);
+		expect(results.last()).toEqual({ status: "ok", data: ["For def"] });
+		const query = queries.getQuery(["posts"]);
+		if (query === undefined) throw new Error("The query should exist");
+		expect(get(query).cache.data).toEqual(["some", ["For def"]]);
+	});
+
+	it("settles waiters when a dependency stops the fetch", async () => {
+		const queries = createTestQueryMap<Queries>();
+		const token = writable<string | undefined>("abc");
+		const fetch = createFakeFetch<Queries, "posts">();
+		recordResults(
+			queries.useQuery(["posts"], fetch.fetch, {
+				dependencies: [
+					new QDepSubscription(token, {
+						onChange: (_, current) =>
+							current === undefined ? "stop" : "clearCacheAndRefetch"
+					})
+				]
+			})
+		);
+		const fetched = queries.fetchQuery(["posts"], fetch.fetch);
+
+		token.set(undefined);
+		await expect(fetched).rejects.toThrow("stopped by a dependency");
+	});
+
+	it("aborts the fetch when cancelled", () => {
+		const queries = createTestQueryMap<Queries>();
+		const fetch = createFakeFetch<Queries, "user">();
+		recordResults(queries.useQuery(["user"], fetch.fetch));
+
+		queries.cancel(["user"]);
+		expect(fetch.calls[0]?.signal.aborted).toBe(true);
+	});
+
+	it("polls on `refetchInterval`", async () => {
+		const queries = createTestQueryMap<Queries>();
+		const fetch = createFakeFetch<Queries, "user">();
+		fetch.script(["ok", { name: "Ada" }], ["ok", { name: "Grace" }]);
+		const results = recordResults(
+			queries.useQuery(["user"], fetch.fetch, { refetchInterval: 1000 })
+		);
+
+		await queries.clock.advance(0);
+		expect(results.last()).toEqual({ status: "ok", data: { name: "Ada" } });
+		await queries.clock.advance(1000);
+		expect(results.last()).toEqual({ status: "ok", data: { name: "Grace" } });
+		expect(fetch.calls.length).toBe(2);
+
+		results.stop();
+		await queries.clock.advance(1000);
+		expect(fetch.calls.length).toBe(2);
+	});
+
+	it("uses `initialData` as cached data until it's stale", async () => {
+		const queries = createTestQueryMap<Queries>();
+		await queries.clock.advance(10_000);
+		const fetch = createFakeFetch<Queries, "user">();
+		const results = recordResults(
+			queries.useQuery(["user"], fetch.fetch, {
+				initialData: () => ({ name: "Ada" }),
+				initialDataUpdatedAt: () => 9000,
+				stale: { duration: () => 2000 }
+			})
+		);
+
+		expect(results.last()).toEqual({ status: "ok", data: { name: "Ada" } });
+		expect(fetch.calls.length).toBe(0);
+		await queries.clock.advance(1000);
+		expect(fetch.pending().length).toBe(1);
+	});
+
+	it("shows `placeholderData` while loading without caching it", async () => {
+		const queries = createTestQueryMap<Queries>();
+		const fetch = createFakeFetch<Queries, "user">();
+		const results = recordResults(
+			queries.useQuery(["user"], fetch.fetch, {
+				placeholderData: () => ({ name: "..." })
+			})
+		);
+
+		expect(results.last()).toEqual({
+			status: "ok",
+			data: { name: "..." },
+			isPlaceholder: true
+		});
+		const query = queries.getQuery(["user"]);
+		if (query === undefined) throw new Error("The query should exist");
+		expect(get(query).cache.hasCached).toBe(false);
+
+		await fetch.ok({ name: "Ada" });
+		expect(results.last()).toEqual({ status: "ok", data: { name: "Ada" } });
+	});
+
+	it("keeps the previous subkey's data with `keepPreviousData`", async () => {
+		const queries = createTestQueryMap<Queries>();
+		const fetch = createFakeFetch<Queries, "profile">();
+		const first = recordResults(
+			queries.useQuery(["profile", 1], fetch.fetch, {
+				placeholderData: keepPreviousData
+			})
+		);
+		await fetch.ok({ name: "Ada" });
+		first.stop();
+
+		const second = recordResults(
+			queries.useQuery(["profile", 2], fetch.fetch, {
+				placeholderData: keepPreviousData
+			})
+		);
+		await fetch.ok({ name: "Grace" });
+		assertResults(second, [
+			{ status: "ok", data: { name: "Ada" }, isPlaceholder: true },
+			{ status: "ok", data: { name: "Grace" } }
+		]);
+	});
+
+	it("forgets the previous data once its query is destroyed", async () => {
+		const queries = createTestQueryMap<Queries>();
+		const fetch = createFakeFetch<Queries, "profile">();
+		const options = { placeholderData: keepPreviousData, gcTime: 1000 };
+		const first = recordResults(
+			queries.useQuery(["profile", 1], fetch.fetch, options)
+		);
+		await fetch.ok({ name: "Ada" });
+		first.stop();
+		await queries.clock.advance(1000);
+		expect(queries.getQuery(["profile", 1])).toBeUndefined();
+
+		const second = recordResults(
+			queries.useQuery(["profile", 2], fetch.fetch, options)
+		);
+		expect(second.last()).toEqual({ status: "loading" });
+	});
+
+	it("creates queries from their definition", async () => {
+		const fetch = createFakeFetch<Queries, "profile">();
+		const ids: number[] = [];
+		const queries = createTestQueryMap<Queries>({
+			queries: {
+				profile: {
+					fetch(id) {
+						ids.push(id);
+						return fetch.fetch;
+					},
+					options: { stale: { duration: () => 1000 }, gcTime: 5000 }
+				}
+			}
+		});
+
+		const results = recordResults(queries.useQuery(["profile", 1]));
+		await fetch.ok({ name: "Ada" });
+		expect(ids).toEqual([1]);
+		expect(results.last()).toEqual({ status: "ok", data: { name: "Ada" } });
+
+		// The definition's options are used.
+		await queries.clock.advance(1000);
+		expect(fetch.pending().length).toBe(1);
+
+		// And win over the ones passed, with a warning.
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+		const other = createFakeFetch<Queries, "profile">();
+		recordResults(queries.useQuery(["profile", 2], other.fetch));
+		expect(warn).toHaveBeenCalledOnce();
+		expect(other.calls.length).toBe(0);
+		expect(ids).toEqual([1, 2]);
+		warn.mockRestore();
+
+		expect(() => queries.useQuery(["user"])).toThrow("`user` query");
+	});
+
+	it("emits events as it fetches", async () => {
+		const queries = createTestQueryMap<Queries>();
+		const fetch = createFakeFetch<Queries, "user">();
+		recordResults(queries.useQuery(["user"], fetch.fetch));
+		await fetch.ok({ name: "Ada" });
+
+		expect(queries.events.map((event) => event.type)).toEqual([
+			"created",
+			"fetchStart",
+			"fetchResult"
+		]);
+		expect(queries.events.every((event) => event.timestamp === 0)).toBe(true);
+	});
+});
+
+describe("trace", () => {
+	it("sends queries' and its own traces to the query map's tracers", () => {
+		const queries = createTestQueryMap<Queries>();
+		const traces: unknown[][] = [];
+		queries.queryMap.tracers.add((key, args) => traces.push([key, ...args]));
+		const fetch = createFakeFetch<Queries, "user">();
+		recordResults(queries.useQuery(["user"], fetch.fetch));
+
+		trace(queries.queryMap, ["user"], "From fetch");
+		expect(traces).toContainEqual([["user"], "Fetching"]);
+		expect(traces[traces.length - 1]).toEqual([["user"], "From fetch"]);
+	});
+});
+
+describe("QueryFilter", () => {
+	/** Loads `['profile', 1]`, `['profile', 2]` and `['user']`. */
+	async function setup() {
+		const queries = createTestQueryMap<Queries>();
+		const profileFetch = createFakeFetch<Queries, "profile">();
+		const userFetch = createFakeFetch<Queries, "user">();
+		recordResults(queries.useQuery(["profile", 1], profileFetch.fetch));
+		await profileFetch.ok({ name: "Ada" });
+		recordResults(queries.useQuery(["profile", 2], profileFetch.fetch));
+		await profileFetch.ok({ name: "Grace" });
+		recordResults(queries.useQuery(["user"], userFetch.fetch));
+		await userFetch.ok({ name: "Ada" });
+		const refetched = () =>
+			profileFetch
+				.pending()
+				.map(() => "profile")
+				.concat(userFetch.pending().map(() => "user"));
+		return { queries, refetched };
+	}
+
+	it("selects a single query by its full key", async () => {
+		const { queries, refetched } = await setup();
+		queries.refetch(["profile", 1]);
+		expect(refetched()).toEqual(["profile"]);
+	});
+
+	it("selects every query beneath a prefix", async () => {
+		const { queries, refetched } = await setup();
+		queries.refetch(["profile"]);
+		expect(refetched()).toEqual(["profile", "profile"]);
+	});
+
+	it("selects nothing for a prefix without queries", async () => {
+		const { queries, refetched } = await setup();
+		queries.refetch(["profile", 3]);
+		expect(refetched()).toEqual([]);
+	});
+
+	it("selects the queries a predicate returns true for", async () => {
+		const { queries, refetched } = await setup();
+		queries.refetch(
+			(_, item) =>
+				item.cache.hasCached &&
+				item.cache.data[0] === "some" &&
+				(item.cache.data[1] as { name: string }).name === "Ada"
+		);
+		expect(refetched()).toEqual(["profile", "user"]);
+	});
+});
+
+describe("createVirtualClock", () => {
+	it("runs timers in order as time advances", async () => {
+		const clock = createVirtualClock();
+		const ran: string[] = [];
+		clock.setTimeout(() => ran.push("b"), 200);
+		clock.setTimeout(() => ran.push("a"), 100);
+		const cleared = clock.setTimeout(() => ran.push("c"), 150);
+		clock.clearTimeout(cleared);
+
+		await clock.advance(150);
+		expect(ran).toEqual(["a"]);
+		expect(clock.now()).toBe(150);
+		await clock.runAll();
+		expect(ran).toEqual(["a", "b"]);
+		expect(clock.pending()).toBe(0);
+	});
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { exponentialBackoff, fixed, none, retryAfter, retryIf } from "./retry";
+import { createFakeFetch, createTestQueryMap, recordResults } from "./testing";
+
+type Queries = {
+	user: {
+		ok: { name: string };
+		err:
+			| ["Validation", string]
+			| ["Network"]
+			| ["FETCH:TooManyRequests", { retryAfter: number | undefined }];
+	};
+};
+
+describe("retry policies", () => {
+	it("`none` never retries", () => {
+		expect(none()(1, ["Network"])).toBe(false);
+	});
+
+	it("`fixed` retries after the same delay", () => {
+		const policy = fixed(200, { retries: 2 });
+		expect([1, 2, 3].map((count) => policy(count, ["Network"]))).toEqual([
+			200,
+			200,
+			false
+		]);
+	});
+
+	it("`exponentialBackoff` doubles the delay up to `max`", () => {
+		const policy = exponentialBackoff({
+			base: 100,
+			max: 300,
+			jitter: false,
+			retries: 4
+		});
+		expect([1, 2, 3, 4, 5].map((count) => policy(count, ["Network"]))).toEqual([
+			100,
+			200,
+			300,
+			300,
+			false
+		]);
+	});
+
+	it("`exponentialBackoff` jitters between half and all of the delay", () => {
+		const policy = exponentialBackoff({ base: 1000 });
+		for (let i = 0; i < 20; i++) {
+			const delay = policy(1, ["Network"]);
+			expect(delay).toBeGreaterThanOrEqual(500);
+			expect(delay).toBeLessThanOrEqual(1000);
+		}
+	});
+
+	it("`retryIf` doesn't retry errors the predicate rejects", () => {
+		const policy = retryIf<Queries["user"]["err"]>(
+			(err) => err[0] !== "Validation",
+			fixed(0)
+		);
+		expect(policy(1, ["Validation", "name"])).toBe(false);
+		expect(policy(1, ["Network"])).toBe(0);
+	});
+
+	it("waits for the server's `retryAfter`", () => {
+		const err: Queries["user"]["err"] = [
+			"FETCH:TooManyRequests",
+			{ retryAfter: 5000 }
+		];
+		expect(retryAfter(err)).toBe(5000);
+		expect(fixed(100)(1, err)).toBe(5000);
+		expect(fixed(100, { respectRetryAfter: false })(1, err)).toBe(100);
+		expect(retryAfter(["Network"])).toBeUndefined();
+	});
+
+	it("drives a query's retries on the clock", async () => {
+		const queries = createTestQueryMap<Queries>();
+		const fetch = createFakeFetch<Queries, "user">();
+		const results = recordResults(
+			queries.useQuery(["user"], fetch.fetch, {
+				onRetry: retryIf(
+					(err) => err[0] !== "Validation",
+					exponentialBackoff({ base: 100, jitter: false })
+				)
+			})
+		);
+
+		await fetch.retry(["FETCH:TooManyRequests", { retryAfter: 1000 }]);
+		await queries.clock.advance(999);
+		expect(fetch.pending().length).toBe(0);
+		await queries.clock.advance(1);
+		await fetch.retry(["Validation", "name"]);
+		expect(fetch.calls.length).toBe(2);
+		expect(results.last()).toEqual({
+			status: "err",
+			err: ["Validation", "name"],
+			isRefetching: false
+		});
+	});
+});
@@ -0,0 +1,107 @@
+/** Retry policies for `UseQueryOptions.onRetry`.
+ *
+ *  # Example
+ *  ```ts
+ *  useQuery(['wallet'], fetchWallet, {
+ *      // Back off up to 30 seconds, but never retry a validation error
+ *      onRetry: retryIf(
+ *          (err) => err[0] !== 'Validation',
+ *          exponentialBackoff({ base: 500, max: 30_000 })
+ *      )
+ *  });
+ *  ```
+ */
+import type { QueryError } from "./lib";
+
+/** Returns how many milliseconds to wait before retrying, or `false` to stop
+ *  retrying and return the error. Same as `UseQueryOptions.onRetry`.
+ *
+ *  `count` is the number of times the fetch has been attempted, so it's 1 the
+ *  first time the policy is called.
+ */
+export type RetryPolicy<Err extends QueryError = QueryError> = (
+	count: number,
+	err: Err
+) => false | number;
+
+export type RetryPolicyOptions = {
+	/** How many times to retry before returning the error. Defaults to 3. */
+	retries?: number;
+	/** Whether to wait for the delay the server asked for, if the error
+	 *  carries one (see `[retryAfter]`), when it's longer than the policy's
+	 *  own delay. Defaults to `true`.
+	 */
+	respectRetryAfter?: boolean;
+};
+
+/** Never retries. */
+export function none(): RetryPolicy {
+	return () => false;
+}
+
+/** Retries after the same delay each time. */
+export function fixed(
+	delay: number,
+	options: RetryPolicyOptions = {}
+): RetryPolicy {
+	return withOptions(options, () => delay);
+}
+
+/** Retries after a delay that doubles each time, starting at `base` and
+ *  capped at `max` milliseconds.
+ *
+ *  With `jitter`, each delay is randomly picked between half and all of it,
+ *  so many clients that failed together don't all retry at the same time.
+ */
+export function exponentialBackoff({
+	base = 1000,
+	max = 30_000,
+	jitter = true,
+	...options
+}: RetryPolicyOptions & {
+	/** The delay before the first retry. Defaults to 1 second. */
+	base?: number;
+	/** The longest delay. Defaults to 30 seconds. */
+	max?: number;
+	/** Defaults to `true`. */
+	jitter?: boolean;
+} = {}): RetryPolicy {
+	return withOptions(options, (count) => {
+		const delay = Math.min(base * 2 ** (count - 1), max);
+		return jitter ? delay / 2 + (Math.random() * delay) / 2 : delay;
+	});
+}
+
+/** Only retries the errors `predicate` returns `true` for, using `policy`.
+ *  Other errors are returned straight away.
+ */
+export function retryIf<Err extends QueryError>(
+	predicate: (err: Err) => boolean,
+	policy: RetryPolicy<Err>
+): RetryPolicy<Err> {
+	return (count, err) => (predicate(err) ? policy(count, err) : false);
+}
+
+/** Returns how many milliseconds the server asked to wait before retrying,
+ *  if `err` carries it. That's an error whose data has a `retryAfter`
+ *  number, like the API fetcher's `FETCH:TooManyRequests`.
+ */
+export function retryAfter(err: QueryError): number | undefined {
+	const data = err[1];
+	if (typeof data !== "object" || data === null) return undefined;
+	if (!("retryAfter" in data) || typeof data.retryAfter !== "number") {
+		return undefined;
+	}
+	return data.retryAfter;
+}
+
+function withOptions(
+	{ retries = 3, respectRetryAfter = true }: RetryPolicyOptions,
+	delay: (count: number) => number
+): RetryPolicy {
+	return (count, err) => {
+		if (count > retries) return false;
+		const serverDelay = respectRetryAfter ? retryAfter(err) : undefined;
+		return Math.max(delay(count), serverDelay ?? 0);
+	};
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import { get } from "svelte/store";
+import { keepPreviousData } from "./lib";
+import { replaceEqualDeep } from "./select";
+import { createFakeFetch, createTestQueryMap, flush } from "./testing";
+
+type Queries = {
+	profile: {
+		subkeys: [number];
+		ok: { name: string; friends: string[] };
+		err: ["Network"];
+	};
+};
+
+describe("useQuerySelector", () => {
+	it("selects from the data and passes other results through", async () => {
+		const queries = createTestQueryMap<Queries>();
+		const fetch = createFakeFetch<Queries, "profile">();
+		const selected = queries.useQuerySelector(
+			["profile", 1],
+			(profile) => profile.friends.length,
+			fetch.fetch
+		);
+		const results: unknown[] = [];
+		selected.subscribe((result) => void results.push(result));
+
+		await fetch.ok({ name: "Ada", friends: ["Grace"] });
+		queries.refetch(["profile", 1]);
+		await fetch.err(["Network"]);
+		expect(results).toEqual([
+			{ status: "loading" },
+			{ status: "ok", data: 1 },
+			{ status: "err", err: ["Network"], isRefetching: false }
+		]);
+	});
+
+	it("only updates when the selected data changes", async () => {
+		const queries = createTestQueryMap<Queries>();
+		const fetch = createFakeFetch<Queries, "profile">();
+		const selected = queries.useQuerySelector(
+			["profile", 1],
+			(profile) => ({ friends: profile.friends }),
+			fetch.fetch
+		);
+		const results: unknown[] = [];
+		selected.subscribe((result) => void results.push(result));
+		await fetch.ok({ name: "Ada", friends: ["Grace"] });
+		const first = get(selected);
+
+		queries.updateData(["profile", 1], { name: "Ada L", friends: ["Grace"] });
+		await flush();
+		expect(results.length).toBe(2);
+		expect(get(selected)).toBe(first);
+
+		queries.updateData(["profile", 1], { name: "Ada", friends: ["Alan"] });
+		await flush();
+		expect(get(selected)).toEqual({
+			status: "ok",
+			data: { friends: ["Alan"] }
+		});
+	});
+
+	it("marks selected placeholder data", async () => {
+		const queries = createTestQueryMap<Queries>();
+		const fetch = createFakeFetch<Queries, "profile">();
+		const options = { placeholderData: keepPreviousData };
+		const first = queries.useQuerySelector(
+			["profile", 1],
+			(profile) => profile.name,
+			fetch.fetch,
+			options
+		);
+		const unsubscribe = first.subscribe(() => undefined);
+		await fetch.ok({ name: "Ada", friends: [] });
+		unsubscribe();
+
+		const second = queries.useQuerySelector(
+			["profile", 2],
+			(profile) => profile.name,
+			fetch.fetch,
+			options
+		);
+		expect(get(second)).toEqual({
+			status: "ok",
+			data: "Ada",
+			isPlaceholder: true
+		});
+	});
+});
+
+describe("replaceEqualDeep", () => {
+	it("keeps the references of unchanged parts", () => {
+		const prev = { a: { b: 1 }, c: [1, 2] };
+		const next = replaceEqualDeep(prev, { a: { b: 1 }, c: [1, 3] });
+		expect(next.a).toBe(prev.a);
+		expect(next.c).not.toBe(prev.c);
+		expect(replaceEqualDeep(prev, { a: { b: 1 }, c: [1, 2] })).toBe(prev);
+	});
+});
@@ -0,0 +1,104 @@
+import { readable, type Readable } from "svelte/store";
+import deepEqual from "fast-deep-equal";
+import {
+	useQuery,
+	type QueriesType,
+	type DependencyValues,
+	type QueryDependency,
+	type QueryFetch,
+	type QueryKeys,
+	type QueryResultErr,
+	type QueryResultIdle,
+	type QueryResultLoading,
+	type UseQueryOptionsArg,
+	type WQueryMap
+} from "./lib";
+
+/** A `QueryResult` whose `ok` data has been through a selector. */
+export type SelectedQueryResult<
+	Q extends QueriesType,
+	Key extends keyof Q,
+	T
+> =
+	| QueryResultIdle
+	| QueryResultLoading
+	| QueryResultErr<Q, Key>
+	| { status: "ok"; data: T; isPlaceholder?: boolean };
+
+/** See `[CreateQueryMapResponse.useQuerySelector]` for documentation. */
+export function useQuerySelector<
+	Q extends QueriesType,
+	Key extends keyof Q,
+	T,
+	Deps extends QueryDependency<Q>[] = []
+>(
+	queryMap: WQueryMap<Q>,
+	key: QueryKeys<Q>[Key],
+	selector: (data: Q[Key]["ok"]) => T,
+	fetch?: QueryFetch<Q, Key, DependencyValues<Deps>>,
+	options?: UseQueryOptionsArg<Q, Key, Deps>
+): Readable<SelectedQueryResult<Q, Key, T>> {
+	const current = useQuery(queryMap, key, fetch, options);
+
+	let last: SelectedQueryResult<Q, Key, T> | undefined;
+	return readable<SelectedQueryResult<Q, Key, T>>(undefined, (set) =>
+		current.subscribe((result) => {
+			const next: SelectedQueryResult<Q, Key, T> =
+				result.status === "ok"
+					? {
+							status: "ok",
+							data: replaceEqualDeep(
+								last?.status === "ok" ? last.data : undefined,
+								selector(result.data)
+							),
+							...(result.isPlaceholder === true && { isPlaceholder: true })
+					  }
+					: result;
+			if (last !== undefined && deepEqual(last, next)) return;
+
+			last = next;
+			set(next);
+		})
+	);
+}
+
+/** Returns `next`, but with every array or plain object in it that's deeply
+ *  equal to the one in the same place in `prev` replaced by the one in
+ *  `prev`. If all of `next` is equal, `prev` itself is returned.
+ *
+ *  This keeps references stable across results, so Svelte's keyed `each`
+ *  blocks and `===` checks don't see unchanged data as changed.
+ */
+export function replaceEqualDeep<T>(prev: unknown, next: T): T {
+	if (prev === next) return next;
+
+	if (Array.isArray(prev) && Array.isArray(next)) {
+		const result = (next as unknown[]).map((item, i) =>
+			replaceEqualDeep(prev[i], item)
+		);
+		const unchanged =
+			prev.length === result.length &&
+			result.every((item, i) => item === prev[i]);
+		return (unchanged ? prev : result) as T;
+	}
+
+	if (isPlainObject(prev) && isPlainObject(next)) {
+		const result: Record<string, unknown> = {};
+		const keys = Object.keys(next);
+		for (const key of keys) {
+			result[key] = replaceEqualDeep(prev[key], next[key]);
+		}
+		const unchanged =
+			Object.keys(prev).length === keys.length &&
+			keys.every((key) => key in prev && result[key] === prev[key]);
+		return (unchanged ? prev : result) as T;
+	}
+
+	return next;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	if (typeof value !== "object" || value === null) return false;
+	const prototype = Object.getPrototypeOf(value) as unknown;
+	return prototype === Object.prototype || prototype === null;
+}
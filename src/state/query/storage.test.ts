@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import { isUsable, memoryStorage, type QueryStorage } from "./storage";
+import { createFakeFetch, createTestQueryMap, recordResults } from "./testing";
+
+type Queries = {
+	user: { subkeys: [number]; ok: { name: string }; err: ["Network"] };
+};
+
+/** A query map persisting to `storage`, using the `user` query for id `1`. */
+function setup(storage: QueryStorage, version: string | number = 1) {
+	const queries = createTestQueryMap<Queries>({
+		persist: { storage, version }
+	});
+	const fetch = createFakeFetch<Queries, "user">();
+	const results = recordResults(queries.useQuery(["user", 1], fetch.fetch));
+	return { queries, fetch, results };
+}
+
+describe("persist", () => {
+	it("rehydrates cached data in a new query map, then refetches", async () => {
+		const storage = memoryStorage();
+		const first = setup(storage);
+		await first.fetch.ok({ name: "Ada" });
+
+		const second = setup(storage);
+		expect(second.results.results).toEqual([
+			{ status: "ok", data: { name: "Ada" } }
+		]);
+		expect(second.fetch.pending().length).toBe(1);
+	});
+
+	it("keeps rehydrated data in storage when a refetch fails", async () => {
+		const storage = memoryStorage();
+		const first = setup(storage);
+		await first.fetch.ok({ name: "Ada" });
+
+		const second = setup(storage);
+		await second.fetch.retry(["Network"], true);
+		expect(second.results.last()).toMatchObject({ status: "err" });
+		await second.queries.clock.runAll();
+		await second.fetch.err(["Network"]);
+
+		// Reloading still shows the last good data.
+		const third = setup(storage);
+		expect(third.results.results).toEqual([
+			{ status: "ok", data: { name: "Ada" } }
+		]);
+	});
+
+	it("doesn't persist `initialData`", () => {
+		const storage = memoryStorage();
+		const queries = createTestQueryMap<Queries>({
+			persist: { storage, version: 1 }
+		});
+		const fetch = createFakeFetch<Queries, "user">();
+		const results = recordResults(
+			queries.useQuery(["user", 1], fetch.fetch, {
+				initialData: () => ({ name: "Ada" })
+			})
+		);
+
+		expect(results.last()).toEqual({ status: "ok", data: { name: "Ada" } });
+		expect(storage.get('query:["user",1]')).toBeUndefined();
+	});
+
+	it("discards entries written by another version", async () => {
+		const storage = memoryStorage();
+		const first = setup(storage, 1);
+		await first.fetch.ok({ name: "Ada" });
+
+		const second = setup(storage, 2);
+		expect(second.results.last()).toEqual({ status: "loading" });
+		expect(storage.get('query:["user",1]')).toBeUndefined();
+	});
+
+	it("removes invalidated queries from storage", async () => {
+		const storage = memoryStorage();
+		const { queries, fetch } = setup(storage);
+		await fetch.ok({ name: "Ada" });
+		expect(storage.get('query:["user",1]')).toMatchObject({
+			version: 1,
+			data: { name: "Ada" }
+		});
+
+		queries.invalidate(["user", 1]);
+		expect(storage.get('query:["user",1]')).toBeUndefined();
+	});
+
+	it("only persists the queries `shouldPersist` allows", async () => {
+		const storage = memoryStorage();
+		const queries = createTestQueryMap<Queries>({
+			persist: { storage, version: 1, shouldPersist: (key) => key[1] !== 2 }
+		});
+		const fetch = createFakeFetch<Queries, "user">();
+		recordResults(queries.useQuery(["user", 1], fetch.fetch));
+		await fetch.ok({ name: "Ada" });
+		recordResults(queries.useQuery(["user", 2], fetch.fetch));
+		await fetch.ok({ name: "Grace" });
+
+		expect(storage.get('query:["user",1]')).toBeDefined();
+		expect(storage.get('query:["user",2]')).toBeUndefined();
+	});
+});
+
+describe("isUsable", () => {
+	const options = { storage: memoryStorage(), version: 1 };
+
+	it("rejects other versions and expired entries", () => {
+		const entry = { version: 1, data: null, expiresAt: 1000, updatedAt: 0 };
+		expect(isUsable(options, entry, 999)).toBe(true);
+		expect(isUsable(options, entry, 1000)).toBe(false);
+		expect(isUsable(options, { ...entry, version: 2 }, 0)).toBe(false);
+		expect(isUsable(options, { ...entry, expiresAt: false }, 1e12)).toBe(true);
+		expect(isUsable(options, undefined, 0)).toBe(false);
+	});
+});
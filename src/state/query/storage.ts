@@ -0,0 +1,162 @@
+import { browser } from "$app/environment";
+import { serialiseKey, type QueriesType, type QueryKeyArr } from "./lib";
+
+/** A successful cache entry as it is written to storage. */
+export type PersistedQuery = {
+	/** The `QueryPersistOptions.version` this entry was written with. */
+	version: string | number;
+	/** The cached `ok` data. */
+	data: unknown;
+	/** When the cache expires, in milliseconds since the epoch. `false` means
+	 *  the cache never expires.
+	 */
+	expiresAt: number | false;
+	/** When the entry was written, in milliseconds since the epoch. */
+	updatedAt: number;
+};
+
+/** Where persisted queries are stored. Implement this to store queries
+ *  somewhere other than the adapters provided below.
+ *
+ *  Methods may return synchronously. If `get` does, the query is rehydrated
+ *  before its first render instead of showing a loading.
+ */
+export interface QueryStorage {
+	get(
+		key: string
+	): PersistedQuery | undefined | Promise<PersistedQuery | undefined>;
+	set(key: string, value: PersistedQuery): void | Promise<void>;
+	remove(key: string): void | Promise<void>;
+}
+
+export type QueryPersistOptions<Q extends QueriesType> = {
+	/** The storage adapter to persist queries through. */
+	storage: QueryStorage;
+	/** The version of the stored data's format. Bump this whenever the shape
+	 *  of any query's `ok` data changes, and entries written by other
+	 *  versions will be discarded instead of rehydrated.
+	 */
+	version: string | number;
+	/** Prepended to the serialised query key in storage. */
+	prefix?: string;
+	/** Whether a query should be persisted at all. Defaults to every query. */
+	shouldPersist?: (key: QueryKeyArr<Q>) => boolean;
+};
+
+/** The key a query is stored under. */
+export function storageKey<Q extends QueriesType>(
+	options: QueryPersistOptions<Q>,
+	key: QueryKeyArr<Q>
+): string {
+	return (options.prefix ?? "query:") + serialiseKey(key);
+}
+
+/** Whether a persisted entry can be used to rehydrate a query. */
+export function isUsable<Q extends QueriesType>(
+	options: QueryPersistOptions<Q>,
+	entry: PersistedQuery | undefined,
+	now: number = Date.now()
+): entry is PersistedQuery {
+	if (entry === undefined) return false;
+	if (entry.version !== options.version) return false;
+	return entry.expiresAt === false || entry.expiresAt > now;
+}
+
+/** Stores persisted queries in memory. Mostly useful for tests. */
+export function memoryStorage(): QueryStorage {
+	const entries = new Map<string, PersistedQuery>();
+	return {
+		get: (key) => entries.get(key),
+		set: (key, value) => void entries.set(key, value),
+		remove: (key) => void entries.delete(key)
+	};
+}
+
+/** Stores persisted queries in `localStorage` as JSON.
+ *
+ *  Reads are synchronous so queries render their cached data immediately, but
+ *  space is limited to a few megabytes. Does nothing outside the browser.
+ */
+export function localStorageAdapter(): QueryStorage {
+	return {
+		get(key) {
+			if (!browser) return undefined;
+			const text = localStorage.getItem(key);
+			if (text === null) return undefined;
+			try {
+				return JSON.parse(text) as PersistedQuery;
+			} catch (e) {
+				console.warn("Could not parse persisted query", key, e);
+				return undefined;
+			}
+		},
+		set(key, value) {
+			if (!browser) return;
+			try {
+				localStorage.setItem(key, JSON.stringify(value));
+			} catch (e) {
+				// Most likely the quota has been exceeded.
+				console.warn("Could not persist query", key, e);
+			}
+		},
+		remove(key) {
+			if (!browser) return;
+			localStorage.removeItem(key);
+		}
+	};
+}
+
+/** Stores persisted queries in an IndexedDB object store.
+ *
+ *  Reads are asynchronous, so queries are briefly loading before their cached
+ *  data is shown, but much more data can be stored than in `localStorage`.
+ *  Does nothing outside the browser.
+ */
+export function indexedDbAdapter(
+	databaseName: string = "query-cache",
+	storeName: string = "queries"
+): QueryStorage {
+	let database: Promise<IDBDatabase> | undefined;
+	function open() {
+		database ??= new Promise((res, rej) => {
+			const request = indexedDB.open(databaseName, 1);
+			request.onupgradeneeded = () => {
+				request.result.createObjectStore(storeName);
+			};
+			request.onsuccess = () => res(request.result);
+			request.onerror = () => rej(request.error);
+		});
+		return database;
+	}
+
+	async function transaction<T>(
+		mode: IDBTransactionMode,
+		run: (store: IDBObjectStore) => IDBRequest<T>
+	): Promise<T | undefined> {
+		if (!browser) return undefined;
+		try {
+			const db = await open();
+			return await new Promise<T>((res, rej) => {
+				const request = run(
+					db.transaction(storeName, mode).objectStore(storeName)
+				);
+				request.onsuccess = () => res(request.result);
+				request.onerror = () => rej(request.error);
+			});
+		} catch (e) {
+			console.warn("IndexedDB query storage failed", e);
+			return undefined;
+		}
+	}
+
+	return {
+		get: (key) =>
+			transaction("readonly", (store) => store.get(key)) as Promise<
+				PersistedQuery | undefined
+			>,
+		set: async (key, value) =>
+			void (await transaction("readwrite", (store) => store.put(value, key))),
+		remove: async (key) =>
+			void (await transaction("readwrite", (store) => store.delete(key)))
+	};
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import { createFakeFetch, createTestQueryMap, recordResults } from "./testing";
+
+type Queries = {
+	user: { ok: { name: string }; err: ["Network"] };
+};
+
+/** Waits for messages to reach the other query maps on the channel. */
+function delivered() {
+	return new Promise((res) => setTimeout(res, 10));
+}
+
+/** Two query maps synced like two tabs, each using the `user` query. */
+async function setup(channel: string) {
+	const tabs = [0, 1].map(() => {
+		const queries = createTestQueryMap<Queries>({ sync: channel });
+		const fetch = createFakeFetch<Queries, "user">();
+		const results = recordResults(queries.useQuery(["user"], fetch.fetch));
+		return { queries, fetch, results };
+	});
+	// The first tab's result cancels the second tab's fetch once it arrives.
+	for (const { fetch } of tabs) {
+		if (fetch.pending().length > 0) await fetch.ok({ name: "Ada" });
+	}
+	await delivered();
+	return tabs;
+}
+
+describe("sync", () => {
+	it("applies data written in another tab", async () => {
+		const [first, second] = await setup("sync-set-data");
+
+		first?.queries.updateData(["user"], { name: "Grace" });
+		await delivered();
+		expect(second?.results.last()).toEqual({
+			status: "ok",
+			data: { name: "Grace" }
+		});
+	});
+
+	it("waits for another tab's refetch instead of fetching too", async () => {
+		const [first, second] = await setup("sync-refetch");
+
+		first?.queries.refetch(["user"]);
+		await delivered();
+		expect(second?.fetch.pending().length).toBe(0);
+
+		await first?.fetch.ok({ name: "Grace" });
+		await delivered();
+		expect(second?.results.last()).toEqual({
+			status: "ok",
+			data: { name: "Grace" }
+		});
+	});
+
+	it("fetches itself when another tab's refetch fails", async () => {
+		const [first, second] = await setup("sync-refetch-fails");
+
+		first?.queries.refetch(["user"]);
+		await delivered();
+		await first?.fetch.err(["Network"]);
+		await delivered();
+		expect(second?.fetch.pending().length).toBe(1);
+
+		await second?.fetch.ok({ name: "Grace" });
+		expect(second?.results.last()).toEqual({
+			status: "ok",
+			data: { name: "Grace" }
+		});
+	});
+
+	it("keeps other tabs' data when a fetch fails", async () => {
+		const [first, second] = await setup("sync-fetch-fails");
+
+		first?.queries.refetch(["user"]);
+		await first?.fetch.err(["Network"]);
+		await delivered();
+		expect(first?.results.last()).toMatchObject({ status: "err" });
+		expect(second?.results.last()).toEqual({
+			status: "ok",
+			data: { name: "Ada" }
+		});
+	});
+
+	it("stops syncing once destroyed", async () => {
+		const [first, second] = await setup("sync-destroy");
+
+		second?.queries.destroy();
+		first?.queries.updateData(["user"], { name: "Grace" });
+		await delivered();
+		expect(second?.results.last()).toEqual({
+			status: "ok",
+			data: { name: "Ada" }
+		});
+	});
+});
@@ -0,0 +1,81 @@
+import { get } from "svelte/store";
+import {
+	getQuery,
+	inBrowser,
+	type QueriesType,
+	type QueryKeys,
+	type WQueryMap
+} from "./lib";
+
+/** A change to a query broadcast to the same query in the other tabs. `key`
+ *  is the query's serialised key.
+ */
+export type QuerySyncMessage =
+	| {
+			type: "setData";
+			key: string;
+			data: unknown;
+			/** Whether the query is still stale after the write. `false` means
+			 *  the data was just fetched, so the other tabs don't need to.
+			 */
+			isStale: boolean;
+	  }
+	| { type: "clearCache"; key: string }
+	/** The broadcasting tab's fetch failed. Its cache was cleared, but only
+	 *  there, the error may not affect the other tabs.
+	 */
+	| { type: "fetchFailed"; key: string }
+	| {
+			type: "markStale";
+			key: string;
+			/** The broadcasting tab is refetching the query, and will broadcast
+			 *  the result.
+			 */
+			willRefetch: boolean;
+	  };
+
+export type QuerySync = {
+	post(message: QuerySyncMessage): void;
+	close(): void;
+};
+
+/** Opens the `BroadcastChannel` for `QueryMapOptions.sync` and applies the
+ *  messages from other tabs to the queries in this query map. Returns
+ *  `undefined` if sync is off or not supported.
+ */
+export function installSync<Q extends QueriesType>(
+	queryMap: WQueryMap<Q>
+): QuerySync | undefined {
+	const sync = queryMap.options.sync;
+	if (!inBrowser(queryMap) || sync === undefined || sync === false)
+		return undefined;
+	if (typeof BroadcastChannel === "undefined") return undefined;
+
+	const channel = new BroadcastChannel(
+		typeof sync === "string" ? sync : "query-sync"
+	);
+	channel.addEventListener(
+		"message",
+		(event: MessageEvent<QuerySyncMessage>) => {
+			const key = JSON.parse(event.data.key) as QueryKeys<Q>[keyof Q];
+			const query = getQuery(queryMap, key);
+			// Queries this tab doesn't use don't need to be kept in sync.
+			if (query === undefined) return;
+			get(query).class.applySync(event.data);
+		}
+	);
+
+	return {
+		post(message) {
+			try {
+				channel.postMessage(message);
+			} catch (e) {
+				// E.g., the data can't be structured cloned.
+				console.warn("Couldn't broadcast query change", message, e);
+			}
+		},
+		close() {
+			channel.close();
+		}
+	};
+}
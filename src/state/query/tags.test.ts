@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { tagMatches } from "./tags";
+import {
+	createFakeFetch,
+	createTestQueryMap,
+	flush,
+	recordResults
+} from "./testing";
+
+type Post = { id: number; title: string };
+type Queries = {
+	posts: { ok: Post[]; err: ["Network"] };
+	post: { subkeys: [number]; ok: Post; err: ["Network"] };
+};
+
+/** Loads the post list, providing `Post` and a tag for each post, and posts
+ *  `1` and `2`, providing their own tags.
+ */
+async function setup() {
+	const queries = createTestQueryMap<Queries>();
+	const postsFetch = createFakeFetch<Queries, "posts">();
+	const postFetch = createFakeFetch<Queries, "post">();
+	const posts = recordResults(
+		queries.useQuery(["posts"], postsFetch.fetch, {
+			providesTags: (posts) => [
+				"Post",
+				...posts.map((post) => ({ type: "Post", id: post.id }))
+			]
+		})
+	);
+	await postsFetch.ok([
+		{ id: 1, title: "One" },
+		{ id: 2, title: "Two" }
+	]);
+	for (const id of [1, 2]) {
+		recordResults(
+			queries.useQuery<"post">(["post", id], postFetch.fetch, {
+				providesTags: (post) => [{ type: "Post", id: post.id }]
+			})
+		);
+		await postFetch.ok({ id, title: String(id) });
+	}
+	return { queries, postsFetch, postFetch, posts };
+}
+
+describe("invalidateTags", () => {
+	it("refetches the queries providing a tag with the same id", async () => {
+		const { queries, postsFetch, postFetch } = await setup();
+
+		queries.invalidateTags([{ type: "Post", id: 1 }]);
+		expect(postsFetch.pending().length).toBe(1);
+		expect(postFetch.pending().length).toBe(1);
+	});
+
+	it("matches every tag of a type without an id", async () => {
+		const { queries, postsFetch, postFetch } = await setup();
+
+		queries.invalidateTags(["Post"]);
+		expect(postsFetch.pending().length).toBe(1);
+		expect(postFetch.pending().length).toBe(2);
+	});
+
+	it("runs the given operation", async () => {
+		const { queries, posts } = await setup();
+
+		queries.invalidateTags([{ type: "Post", id: 2 }], "invalidate");
+		await flush();
+		expect(posts.last()).toEqual({ status: "loading" });
+	});
+
+	it("follows the tags of the latest data", async () => {
+		const { queries, postsFetch } = await setup();
+		queries.updateData(["posts"], [{ id: 3, title: "Three" }]);
+
+		queries.invalidateTags([{ type: "Post", id: 1 }]);
+		expect(postsFetch.pending().length).toBe(0);
+		queries.invalidateTags([{ type: "Post", id: 3 }]);
+		expect(postsFetch.pending().length).toBe(1);
+	});
+});
+
+describe("tagMatches", () => {
+	it("matches by type, then by id if the invalidated tag has one", () => {
+		expect(tagMatches({ type: "Post", id: 1 }, { type: "Post" })).toBe(true);
+		expect(tagMatches({ type: "Post" }, { type: "Post", id: 1 })).toBe(false);
+		expect(tagMatches({ type: "Post", id: 1 }, { type: "Post", id: 2 })).toBe(
+			false
+		);
+		expect(tagMatches({ type: "Post" }, { type: "User" })).toBe(false);
+	});
+});
@@ -0,0 +1,63 @@
+import type { QueriesType, Query, WQueryMap } from "./lib";
+
+/** A cache tag a query provides through `options.providesTags`, e.g.,
+ *  `{ type: 'Post', id: 42 }` for a query containing post 42. A string is
+ *  shorthand for a tag with just a `type`, which usually means a list.
+ */
+export type QueryTag = string | QueryTagObject;
+export type QueryTagObject = { type: string; id?: string | number };
+
+/** What `[invalidateTags]` does to each query providing a matching tag. Each
+ *  is the operation of the same name on `CreateQueryMapResponse`.
+ */
+export type TagInvalidation =
+	| "markStale"
+	| "invalidate"
+	| "refetch"
+	| "invalidateAndRefetch";
+
+export function normaliseTag(tag: QueryTag): QueryTagObject {
+	return typeof tag === "string" ? { type: tag } : tag;
+}
+
+/** Whether a tag a query provides is matched by a tag being invalidated. A
+ *  tag without an `id` matches every tag of its type, one with an `id` only
+ *  matches tags with the same `id`.
+ */
+export function tagMatches(
+	provided: QueryTagObject,
+	invalidated: QueryTagObject
+): boolean {
+	if (provided.type !== invalidated.type) return false;
+	return invalidated.id === undefined || provided.id === invalidated.id;
+}
+
+/** See `[CreateQueryMapResponse.invalidateTags]` for documentation. */
+export function invalidateTags<Q extends QueriesType>(
+	queryMap: WQueryMap<Q>,
+	tags: QueryTag[],
+	operation: TagInvalidation = "markStale"
+) {
+	// Collect the queries first, the operations update the tag index.
+	const queries = new Set<Query<Q, keyof Q>>();
+	for (const tag of tags.map(normaliseTag)) {
+		const providers = queryMap.tagIndex.get(tag.type) ?? new Set();
+		for (const query of providers as Set<Query<Q, keyof Q>>) {
+			if (query.tags.some((provided) => tagMatches(provided, tag))) {
+				queries.add(query);
+			}
+		}
+	}
+
+	for (const query of queries) {
+		if (operation === "markStale") {
+			query.markStale();
+		} else if (operation === "invalidate") {
+			query.clearCache(false, true);
+		} else if (operation === "refetch") {
+			query.refetch();
+		} else {
+			query.invalidateAndRefetch();
+		}
+	}
+}
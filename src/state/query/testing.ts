@@ -0,0 +1,311 @@
+/** Utilities for testing code that uses queries, and the query engine itself.
+ *
+ *  Queries depend on timers, the browser and the order async fetches settle
+ *  in. `createTestQueryMap` makes all three deterministic: timers run on a
+ *  `VirtualClock` that only moves when told to, queries fetch outside the
+ *  browser, and `createFakeFetch` only settles fetches when told to.
+ *
+ *  # Example
+ *  ```ts
+ *  const queries = createTestQueryMap<Queries>();
+ *  const fetch = createFakeFetch<Queries, 'wallet'>();
+ *  const results = recordResults(
+ *      queries.useQuery(['wallet'], fetch.fetch, { stale: { duration: () => 1000 } })
+ *  );
+ *
+ *  await fetch.ok(wallet);
+ *  await queries.clock.advance(1000);
+ *  await fetch.ok(newWallet);
+ *  assertStatuses(results, ['loading', 'ok', 'ok']);
+ *  ```
+ */
+import type { Readable } from "svelte/store";
+import deepEqual from "fast-deep-equal";
+import {
+	createQueryMap,
+	type CreateQueryMapResponse,
+	type FetchResult,
+	type QueriesType,
+	type QueryClock,
+	type QueryFetch,
+	type QueryMapOptions,
+	type QueryResult,
+	type QueryTimeout
+} from "./lib";
+import type { QueryEvent } from "./events";
+
+/** Resolves once every pending promise callback has run, e.g., a query has
+ *  handled a fetch that just settled.
+ */
+export function flush(): Promise<void> {
+	return new Promise((res) => setTimeout(res, 0));
+}
+
+export type VirtualClock = QueryClock & {
+	/** Moves the time forward, running every timer that's due in order. Waits
+	 *  for the queries to react to each timer before running the next.
+	 */
+	advance(duration: number): Promise<void>;
+	/** Moves the time forward to each pending timer in turn until there are
+	 *  none left. Throws if timers keep being set, e.g., by polling.
+	 */
+	runAll(maxTimers?: number): Promise<void>;
+	/** The number of timers waiting to run. */
+	pending(): number;
+};
+
+/** Creates a clock whose time only moves with `advance` or `runAll`. */
+export function createVirtualClock(start: number = 0): VirtualClock {
+	let now = start;
+	let nextId = 1;
+	const timers = new Map<number, { at: number; run: () => void }>();
+
+	const nextTimer = (until: number) => {
+		let next: [number, { at: number; run: () => void }] | undefined;
+		for (const timer of timers) {
+			if (timer[1].at > until) continue;
+			// Timers due at the same time run in the order they were set.
+			if (next === undefined || timer[1].at < next[1].at) next = timer;
+		}
+		return next;
+	};
+	const runTimer = async ([id, timer]: [
+		number,
+		{ at: number; run: () => void }
+	]) => {
+		timers.delete(id);
+		now = Math.max(now, timer.at);
+		timer.run();
+		await flush();
+	};
+
+	return {
+		now: () => now,
+		setTimeout(run, duration) {
+			const id = nextId++;
+			timers.set(id, { at: now + Math.max(duration, 0), run });
+			return id;
+		},
+		clearTimeout(timeout: QueryTimeout | undefined) {
+			if (typeof timeout === "number") timers.delete(timeout);
+		},
+		async advance(duration) {
+			const until = now + duration;
+			let next = nextTimer(until);
+			while (next !== undefined) {
+				await runTimer(next);
+				next = nextTimer(until);
+			}
+			now = until;
+			await flush();
+		},
+		async runAll(maxTimers = 1000) {
+			for (let i = 0; i < maxTimers; i++) {
+				const next = nextTimer(Infinity);
+				if (next === undefined) return;
+				await runTimer(next);
+			}
+			throw new Error(`Timers still pending after running ${maxTimers}`);
+		},
+		pending: () => timers.size
+	};
+}
+
+export type TestQueryMap<Q extends QueriesType> = CreateQueryMapResponse<Q> & {
+	clock: VirtualClock;
+	/** Every event emitted by the queries in the map, in order. */
+	events: QueryEvent<Q>[];
+};
+
+/** Creates a query map for tests. Its queries fetch outside the browser,
+ *  their timers run on a `VirtualClock`, and their events are recorded.
+ */
+export function createTestQueryMap<Q extends QueriesType>(
+	options: QueryMapOptions<Q> = {}
+): TestQueryMap<Q> {
+	const clock = createVirtualClock();
+	const events: QueryEvent<Q>[] = [];
+	const onEvent = options.onEvent;
+	const response = createQueryMap<Q>({
+		browser: true,
+		clock,
+		...options,
+		onEvent(event) {
+			events.push(event);
+			onEvent?.(event);
+		}
+	});
+	return { ...response, clock, events };
+}
+
+/** A call made to a `FakeFetch`. */
+export type FakeFetchCall<Q extends QueriesType, Key extends keyof Q> = {
+	signal: AbortSignal;
+	dependencies: unknown[];
+	/** Whether the call has been settled, by a command or a scripted result. */
+	isSettled: boolean;
+	settle(result: FetchResult<Q, Key>): void;
+	fail(error: unknown): void;
+};
+
+export type FakeFetch<Q extends QueriesType, Key extends keyof Q> = {
+	/** Pass this to `useQuery`. */
+	fetch: QueryFetch<Q, Key>;
+	/** Every call made, in order. */
+	calls: FakeFetchCall<Q, Key>[];
+	/** The calls that haven't been settled or aborted yet. */
+	pending(): FakeFetchCall<Q, Key>[];
+	/** Settles the oldest pending call with `result`. Aborted calls are
+	 *  skipped, the query isn't waiting on them anymore.
+	 */
+	resolve(result: FetchResult<Q, Key>): Promise<void>;
+	/** Makes the oldest pending call throw `error`. */
+	reject(error: unknown): Promise<void>;
+	ok(data: Q[Key]["ok"]): Promise<void>;
+	err(err: Q[Key]["err"]): Promise<void>;
+	retry(err: Q[Key]["err"], returnError?: boolean): Promise<void>;
+	/** Queues results that future calls return straight away, in order. */
+	script(...results: FetchResult<Q, Key>[]): void;
+};
+
+/** Creates a fetch that only settles when told to, or with results queued
+ *  through `script`. Each command waits for the query to react before
+ *  resolving.
+ */
+export function createFakeFetch<
+	Q extends QueriesType,
+	Key extends keyof Q
+>(): FakeFetch<Q, Key> {
+	const calls: FakeFetchCall<Q, Key>[] = [];
+	const scripted: FetchResult<Q, Key>[] = [];
+
+	const isPending = (call: FakeFetchCall<Q, Key>) =>
+		!call.isSettled && !call.signal.aborted;
+	const oldestPending = () => {
+		const call = calls.find(isPending);
+		if (call === undefined) throw new Error("No pending fetch to settle");
+		return call;
+	};
+
+	const fake: FakeFetch<Q, Key> = {
+		fetch(signal, dependencies) {
+			return new Promise((res, rej) => {
+				const call: FakeFetchCall<Q, Key> = {
+					signal,
+					dependencies,
+					isSettled: false,
+					settle(result) {
+						call.isSettled = true;
+						res(result);
+					},
+					fail(error) {
+						call.isSettled = true;
+						rej(error);
+					}
+				};
+				calls.push(call);
+
+				const result = scripted.shift();
+				if (result !== undefined) call.settle(result);
+			});
+		},
+		calls,
+		pending: () => calls.filter(isPending),
+		async resolve(result) {
+			oldestPending().settle(result);
+			await flush();
+		},
+		async reject(error) {
+			oldestPending().fail(error);
+			await flush();
+		},
+		ok: (data) => fake.resolve(["ok", data]),
+		err: (err) => fake.resolve(["err", err]),
+		retry: (err, returnError = false) =>
+			fake.resolve(["retry", { err, returnError }]),
+		script(...results) {
+			scripted.push(...results);
+		}
+	};
+	return fake;
+}
+
+export type ResultRecorder<Q extends QueriesType, Key extends keyof Q> = {
+	/** The results the store emitted, in order. */
+	results: QueryResult<Q, Key>[];
+	/** The status of every result, in order. */
+	statuses(): QueryResult<Q, Key>["status"][];
+	/** The latest result. */
+	last(): QueryResult<Q, Key>;
+	/** Stops recording. The store is no longer subscribed to after this. */
+	stop(): void;
+};
+
+/** Subscribes to a query's store and records the results it emits.
+ *
+ *  A single change to a query can update its store several times in a row,
+ *  so like a Svelte component, the recorder only looks at the latest result
+ *  once the synchronous updates are done. Results equal to the one before
+ *  aren't recorded.
+ */
+export function recordResults<Q extends QueriesType, Key extends keyof Q>(
+	store: Readable<QueryResult<Q, Key>>
+): ResultRecorder<Q, Key> {
+	const results: QueryResult<Q, Key>[] = [];
+	const last = () => results[results.length - 1];
+	let latest: QueryResult<Q, Key> | undefined;
+	let isScheduled = false;
+
+	const stop = store.subscribe((result) => {
+		latest = result;
+		// The first result is emitted during `subscribe`.
+		if (results.length === 0) {
+			results.push(result);
+			return;
+		}
+		if (isScheduled) return;
+
+		isScheduled = true;
+		queueMicrotask(() => {
+			isScheduled = false;
+			if (latest !== undefined && !deepEqual(latest, last())) {
+				results.push(latest);
+			}
+		});
+	});
+	return {
+		results,
+		statuses: () => results.map((result) => result.status),
+		last,
+		stop
+	};
+}
+
+/** Throws unless the recorded results had exactly these statuses. */
+export function assertStatuses<Q extends QueriesType, Key extends keyof Q>(
+	recorder: ResultRecorder<Q, Key>,
+	expected: QueryResult<Q, Key>["status"][]
+) {
+	const actual = recorder.statuses();
+	if (!deepEqual(actual, expected)) {
+		throw new Error(
+			`Expected statuses ${JSON.stringify(expected)}, got ${JSON.stringify(
+				actual
+			)}`
+		);
+	}
+}
+
+/** Throws unless the recorded results were deeply equal to these. */
+export function assertResults<Q extends QueriesType, Key extends keyof Q>(
+	recorder: ResultRecorder<Q, Key>,
+	expected: QueryResult<Q, Key>[]
+) {
+	if (!deepEqual(recorder.results, expected)) {
+		throw new Error(
+			`Expected results ${JSON.stringify(expected)}, got ${JSON.stringify(
+				recorder.results
+			)}`
+		);
+	}
+}
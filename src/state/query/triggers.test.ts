@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createFakeFetch, createTestQueryMap, recordResults } from "./testing";
+
+type Queries = {
+	user: { ok: { name: string }; err: ["Network"] };
+};
+
+const fakeDocument = Object.assign(new EventTarget(), {
+	visibilityState: "visible" as DocumentVisibilityState
+});
+const fakeWindow = new EventTarget();
+
+// Test files run in their own environment, so these don't leak into others.
+vi.stubGlobal("document", fakeDocument);
+vi.stubGlobal("window", fakeWindow);
+beforeEach(() => {
+	fakeDocument.visibilityState = "visible";
+});
+
+function setVisibility(visibilityState: DocumentVisibilityState) {
+	fakeDocument.visibilityState = visibilityState;
+	fakeDocument.dispatchEvent(new Event("visibilitychange"));
+}
+
+describe("triggers", () => {
+	it("refetches queries in use when the window regains focus", async () => {
+		const queries = createTestQueryMap<Queries>();
+		const fetch = createFakeFetch<Queries, "user">();
+		const results = recordResults(
+			queries.useQuery(["user"], fetch.fetch, { refetchOnWindowFocus: true })
+		);
+		await fetch.ok({ name: "Ada" });
+
+		fakeWindow.dispatchEvent(new Event("focus"));
+		expect(fetch.pending().length).toBe(1);
+		await fetch.ok({ name: "Grace" });
+
+		results.stop();
+		fakeWindow.dispatchEvent(new Event("focus"));
+		expect(fetch.pending().length).toBe(0);
+		queries.destroy();
+	});
+
+	it("refetches when the network reconnects", async () => {
+		const queries = createTestQueryMap<Queries>();
+		const fetch = createFakeFetch<Queries, "user">();
+		recordResults(
+			queries.useQuery(["user"], fetch.fetch, { refetchOnReconnect: true })
+		);
+		await fetch.ok({ name: "Ada" });
+
+		fakeWindow.dispatchEvent(new Event("focus"));
+		expect(fetch.pending().length).toBe(0);
+		fakeWindow.dispatchEvent(new Event("online"));
+		expect(fetch.pending().length).toBe(1);
+		queries.destroy();
+	});
+
+	it("refetches when the document becomes visible again", async () => {
+		const queries = createTestQueryMap<Queries>();
+		const fetch = createFakeFetch<Queries, "user">();
+		recordResults(
+			queries.useQuery(["user"], fetch.fetch, { refetchOnWindowFocus: true })
+		);
+		await fetch.ok({ name: "Ada" });
+
+		setVisibility("hidden");
+		expect(fetch.pending().length).toBe(0);
+		setVisibility("visible");
+		expect(fetch.pending().length).toBe(1);
+		queries.destroy();
+	});
+
+	it("stops listening once destroyed, and never for server query maps", async () => {
+		const client = createTestQueryMap<Queries>();
+		const server = createTestQueryMap<Queries>({ server: true });
+		const options = { refetchOnWindowFocus: true };
+		const clientFetch = createFakeFetch<Queries, "user">();
+		const serverFetch = createFakeFetch<Queries, "user">();
+		recordResults(client.useQuery(["user"], clientFetch.fetch, options));
+		recordResults(server.useQuery(["user"], serverFetch.fetch, options));
+		await clientFetch.ok({ name: "Ada" });
+		await serverFetch.ok({ name: "Ada" });
+
+		client.destroy();
+		fakeWindow.dispatchEvent(new Event("focus"));
+		expect(clientFetch.pending().length).toBe(0);
+		expect(serverFetch.pending().length).toBe(0);
+	});
+});
@@ -0,0 +1,76 @@
+import { get, readable } from "svelte/store";
+import { browser } from "$app/environment";
+import {
+	getAllQueries,
+	inBrowser,
+	type QueriesType,
+	type Query,
+	type WQueryMap
+} from "./lib";
+
+/** Whether the document is visible, i.e., the tab isn't in the background.
+ *  Always `true` outside the browser.
+ */
+export const documentVisible = readable(true, (set) => {
+	if (!browser) return;
+
+	const update = () => set(document.visibilityState !== "hidden");
+	update();
+	document.addEventListener("visibilitychange", update);
+	return () => document.removeEventListener("visibilitychange", update);
+});
+
+/** Resolves once the document is visible. */
+export function whenVisible(): Promise<void> {
+	if (get(documentVisible)) return Promise.resolve();
+
+	return new Promise((res) => {
+		const unsubscribe = documentVisible.subscribe((visible) => {
+			if (!visible) return;
+			res();
+			// `unsubscribe` isn't assigned yet if this runs during `subscribe`.
+			void Promise.resolve().then(() => unsubscribe());
+		});
+	});
+}
+
+/** Listens for the window regaining focus, the network reconnecting and the
+ *  document becoming visible, and lets every query in the query map react
+ *  according to its options. Returns a function that removes the listeners.
+ *  Server query maps don't listen, even in the browser.
+ */
+export function installTriggers<Q extends QueriesType>(
+	queryMap: WQueryMap<Q>
+): () => void {
+	if (!inBrowser(queryMap) || queryMap.options.server === true) {
+		return () => undefined;
+	}
+	if (typeof window === "undefined") return () => undefined;
+
+	const forEachQuery = (run: (query: Query<Q, keyof Q>) => void) => {
+		for (const query of getAllQueries(queryMap)) run(get(query).class);
+	};
+
+	const onFocus = () => {
+		forEachQuery((query) => query.onWindowFocus());
+	};
+	const onVisibilityChange = () => {
+		if (document.visibilityState === "hidden") return;
+		forEachQuery((query) => {
+			query.onVisible();
+			query.onWindowFocus();
+		});
+	};
+	const onOnline = () => {
+		forEachQuery((query) => query.onReconnect());
+	};
+
+	window.addEventListener("focus", onFocus);
+	document.addEventListener("visibilitychange", onVisibilityChange);
+	window.addEventListener("online", onOnline);
+	return () => {
+		window.removeEventListener("focus", onFocus);
+		document.removeEventListener("visibilitychange", onVisibilityChange);
+		window.removeEventListener("online", onOnline);
+	};
+}